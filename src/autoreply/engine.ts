@@ -0,0 +1,297 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import {
+  forwardMessage,
+  sendFileMessage,
+  sendListMessage,
+  sendReactionToMessage,
+  sendTextMessage,
+} from '../chat';
+import { internalEv } from '../eventEmitter';
+import { addOrRemoveLabels } from '../labels';
+import { createIndexedDBStore } from '../util/indexedDBStore';
+import { ChatModel, LabelStore, MsgModel } from '../whatsapp';
+import {
+  AutoReplyAction,
+  AutoReplyBusinessHours,
+  AutoReplyRule,
+} from './types';
+
+const debug = Debug('WA-JS:autoreply');
+
+export const rules: AutoReplyRule[] = [];
+
+export const state = {
+  dryRun: false,
+};
+
+/**
+ * Last reply time of each rule for each chat, used for cooldown,
+ * key is `<rule id>|<chat id>`.
+ * The last reply of any rule, used for "first message only" rules,
+ * has the key `*|<chat id>`
+ */
+const repliesStorage = createIndexedDBStore<{ key: string; t: number }>(
+  'autoreply'
+);
+const replies = new Map<string, number>();
+let repliesLoaded: Promise<void> | null = null;
+
+/**
+ * Messages already processed, the new message event is triggered again
+ * when a ciphertext message is decrypted
+ */
+const processed = new Set<string>();
+
+internalEv.on('chat.new_message', (msg) => {
+  if (!rules.length) {
+    return;
+  }
+  processMessage(msg).catch((error) => {
+    debug('failed to process message', error);
+  });
+});
+
+function loadReplies() {
+  if (!repliesLoaded) {
+    repliesLoaded = (async () => {
+      try {
+        const stored = await repliesStorage.getAll();
+        for (const item of stored) {
+          replies.set(item.key, item.t);
+        }
+      } catch (error) {
+        debug('failed to load replies', error);
+      }
+    })();
+  }
+  return repliesLoaded;
+}
+
+function getText(msg: MsgModel): string {
+  if (msg.type === 'chat' || !msg.isMedia) {
+    return msg.body || '';
+  }
+  return msg.caption || '';
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map((v) => parseInt(v, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+function isInBusinessHours(hours: AutoReplyBusinessHours, date: Date) {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = parseTime(hours.start);
+  const end = parseTime(hours.end);
+
+  let inside =
+    !hours.days || hours.days.includes(date.getDay())
+      ? start <= end
+        ? now >= start && now < end
+        : now >= start || now < end // Overnight window
+      : false;
+
+  if (hours.outside) {
+    inside = !inside;
+  }
+
+  return inside;
+}
+
+function matchRule(rule: AutoReplyRule, msg: MsgModel, chat: ChatModel) {
+  const match = rule.match;
+  const chatType = match.chatType || 'user';
+
+  if (chatType !== 'all') {
+    if (chatType === 'user' && !chat.id.isUser()) {
+      return false;
+    }
+    if (chatType === 'group' && !chat.id.isGroup()) {
+      return false;
+    }
+  }
+
+  if (match.types && !match.types.includes(msg.type!)) {
+    return false;
+  }
+
+  if (match.senders) {
+    const sender = msg.author || msg.from;
+    if (
+      !match.senders.some((s) => sender?.equals(s) || sender?.toString() === s)
+    ) {
+      return false;
+    }
+  }
+
+  if (match.labels) {
+    const chatLabels = chat.labels || [];
+    const found = chatLabels.some((id) => {
+      const name = LabelStore.get(id)?.name;
+      return (
+        match.labels!.includes(id) || (!!name && match.labels!.includes(name))
+      );
+    });
+    if (!found) {
+      return false;
+    }
+  }
+
+  const text = getText(msg);
+
+  const normalize = (value: string) =>
+    match.caseSensitive ? value.trim() : value.trim().toLowerCase();
+
+  if (match.text) {
+    const texts = Array.isArray(match.text) ? match.text : [match.text];
+    const normalized = normalize(text);
+    if (!texts.some((t) => normalize(t) === normalized)) {
+      return false;
+    }
+  }
+
+  if (match.regex) {
+    const regex =
+      match.regex instanceof RegExp
+        ? match.regex
+        : new RegExp(match.regex, match.caseSensitive ? '' : 'i');
+    regex.lastIndex = 0;
+    if (!regex.test(text)) {
+      return false;
+    }
+  }
+
+  if (
+    rule.businessHours &&
+    !isInBusinessHours(rule.businessHours, new Date())
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+async function runAction(
+  action: AutoReplyAction,
+  msg: MsgModel,
+  chat: ChatModel
+) {
+  switch (action.type) {
+    case 'text': {
+      const text =
+        typeof action.text === 'function' ? action.text(msg) : action.text;
+      await sendTextMessage(chat.id, text, {
+        ...action.options,
+        ...(action.quote && { quotedMsg: msg }),
+      });
+      break;
+    }
+    case 'file':
+      await sendFileMessage(chat.id, action.content, {
+        ...action.options,
+      } as any);
+      break;
+    case 'list':
+      await sendListMessage(chat.id, action.options);
+      break;
+    case 'react':
+      await sendReactionToMessage(msg.id, action.reaction);
+      break;
+    case 'label':
+      await addOrRemoveLabels(
+        chat.id,
+        action.labelIds.map((labelId) => ({ labelId, type: 'add' }))
+      );
+      break;
+    case 'forward':
+      await forwardMessage(action.to, msg.id);
+      break;
+  }
+}
+
+async function processMessage(msg: MsgModel) {
+  const id = msg.id.toString();
+
+  // Ignore my own messages and system messages
+  if (
+    msg.id.fromMe ||
+    msg.isNotification ||
+    msg.isStatusV3 ||
+    msg.type === 'ciphertext' ||
+    msg.type === 'protocol' ||
+    processed.has(id)
+  ) {
+    return;
+  }
+
+  const chat = msg.chat;
+  if (!chat || chat.id.isNewsletter() || chat.id.isStatus()) {
+    return;
+  }
+
+  processed.add(id);
+  if (processed.size > 1000) {
+    processed.delete(processed.values().next().value!);
+  }
+
+  await loadReplies();
+
+  for (const rule of rules) {
+    if (!matchRule(rule, msg, chat)) {
+      continue;
+    }
+
+    const key = `${rule.id}|${chat.id.toString()}`;
+    const chatKey = `*|${chat.id.toString()}`;
+    const lastReply = replies.get(key);
+
+    if (rule.firstMessageOnly && replies.has(chatKey)) {
+      continue;
+    }
+
+    if (lastReply) {
+      if (rule.cooldown && Date.now() - lastReply < rule.cooldown * 1000) {
+        debug(`rule ${rule.id} is in cooldown for ${chat.id}`);
+        continue;
+      }
+    }
+
+    const dryRun = state.dryRun || !!rule.dryRun;
+
+    debug(`message ${id} matched rule ${rule.id}`);
+    internalEv.emit('autoreply.matched', { rule, msg, dryRun });
+
+    if (!dryRun) {
+      const t = Date.now();
+      for (const k of [key, chatKey]) {
+        replies.set(k, t);
+        repliesStorage.put(k, { key: k, t }).catch(() => null);
+      }
+
+      const actions = Array.isArray(rule.action) ? rule.action : [rule.action];
+      for (const action of actions) {
+        await runAction(action, msg, chat);
+      }
+    }
+
+    // Only the first matched rule is applied
+    break;
+  }
+}
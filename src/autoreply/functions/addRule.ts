@@ -0,0 +1,96 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { rules } from '../engine';
+import { AutoReplyRule } from '../types';
+
+/**
+ * Add an auto-reply rule, evaluated for each received message.
+ *
+ * Rules are checked in the order they were added and only the first matched
+ * rule is applied. Messages sent by me, status and newsletters are ignored.
+ * By default, only messages from user chats (not groups) are matched.
+ *
+ * @example
+ * ```javascript
+ * // Reply a greeting
+ * WPP.autoreply.addRule({
+ *   match: { regex: '^(hi|hello)\\b' },
+ *   action: { type: 'text', text: 'Hello! How can I help you?' },
+ *   cooldown: 60 * 60, // One reply per hour for each chat
+ * });
+ *
+ * // Out of office reply, only for the first contact of each chat
+ * WPP.autoreply.addRule({
+ *   match: { chatType: 'user' },
+ *   action: { type: 'text', text: 'We are closed, we will reply tomorrow' },
+ *   businessHours: { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00', outside: true },
+ *   firstMessageOnly: true,
+ * });
+ *
+ * // Label and forward messages with invoice in groups
+ * WPP.autoreply.addRule({
+ *   id: 'invoices',
+ *   match: { chatType: 'group', types: ['document'], regex: /invoice/i },
+ *   action: [
+ *     { type: 'react', reaction: '👍' },
+ *     { type: 'forward', to: '[number]@c.us' },
+ *   ],
+ * });
+ *
+ * // Case sensitive match of a code
+ * WPP.autoreply.addRule({
+ *   match: { regex: '^PROMO[0-9]+$', caseSensitive: true },
+ *   action: { type: 'text', text: 'Promo code received' },
+ * });
+ *
+ * // Only check the matches without sending
+ * WPP.autoreply.addRule({
+ *   match: { text: ['price', 'prices'] },
+ *   action: { type: 'text', text: 'Check our catalog' },
+ *   dryRun: true,
+ * });
+ * WPP.on('autoreply.matched', ({ rule, msg, dryRun }) => {
+ *   console.log(rule.id, msg.body, dryRun);
+ * });
+ * ```
+ *
+ * @category AutoReply
+ */
+export function addRule(rule: AutoReplyRule): AutoReplyRule {
+  if (!rule?.match || !rule?.action) {
+    throw new WPPError(
+      'invalid_autoreply_rule',
+      'The rule must have the match and action fields'
+    );
+  }
+
+  const id = rule.id || crypto.randomUUID();
+
+  if (rules.some((r) => r.id === id)) {
+    throw new WPPError(
+      'autoreply_rule_already_exists',
+      `Auto-reply rule ${id} already exists`,
+      { id }
+    );
+  }
+
+  const result = { ...rule, id };
+  rules.push(result);
+
+  return result;
+}
@@ -0,0 +1,43 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { rules } from '../engine';
+import { AutoReplyRule } from '../types';
+
+/**
+ * Remove an auto-reply rule
+ *
+ * @example
+ * ```javascript
+ * WPP.autoreply.removeRule('invoices');
+ * ```
+ *
+ * @category AutoReply
+ */
+export function removeRule(id: string): AutoReplyRule {
+  const index = rules.findIndex((r) => r.id === id);
+
+  if (index < 0) {
+    throw new WPPError(
+      'autoreply_rule_not_found',
+      `Auto-reply rule ${id} not found`,
+      { id }
+    );
+  }
+
+  return rules.splice(index, 1)[0];
+}
@@ -0,0 +1,139 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  FileMessageOptions,
+  ListMessageOptions,
+  TextMessageOptions,
+} from '../chat';
+import type { MsgModel, Wid } from '../whatsapp';
+
+export interface AutoReplyMatch {
+  /**
+   * Exact text of the message
+   */
+  text?: string | string[];
+  /**
+   * Regular expression tested against the message text or caption
+   */
+  regex?: string | RegExp;
+  /**
+   * Compare the `text` and the string `regex` with case sensitivity,
+   * `RegExp` objects use their own flags
+   *
+   * @default false
+   */
+  caseSensitive?: boolean;
+  /**
+   * Message types, like `chat`, `image` or `location`
+   */
+  types?: string[];
+  /**
+   * Type of chat to reply
+   *
+   * @default 'user'
+   */
+  chatType?: 'user' | 'group' | 'all';
+  /**
+   * Only chats with one of these labels (ID or name)
+   */
+  labels?: string[];
+  /**
+   * Only messages from these senders
+   */
+  senders?: (string | Wid)[];
+}
+
+export type AutoReplyAction =
+  | {
+      type: 'text';
+      /**
+       * The text or a function to create the text for the received message
+       */
+      text: string | ((msg: MsgModel) => string);
+      /**
+       * Quote the received message
+       */
+      quote?: boolean;
+      options?: TextMessageOptions;
+    }
+  | {
+      type: 'file';
+      content: string | Blob;
+      options?: FileMessageOptions;
+    }
+  | {
+      type: 'list';
+      options: ListMessageOptions;
+    }
+  | {
+      type: 'react';
+      reaction: string;
+    }
+  | {
+      type: 'label';
+      labelIds: string[];
+    }
+  | {
+      type: 'forward';
+      to: string | Wid;
+    };
+
+export interface AutoReplyBusinessHours {
+  /**
+   * Days of week, 0 is Sunday
+   *
+   * @default [0, 1, 2, 3, 4, 5, 6]
+   */
+  days?: number[];
+  /**
+   * Start time in local time, format `HH:mm`
+   */
+  start: string;
+  /**
+   * End time in local time, format `HH:mm`
+   */
+  end: string;
+  /**
+   * Match only outside of the window, useful for "out of office" replies
+   *
+   * @default false
+   */
+  outside?: boolean;
+}
+
+export interface AutoReplyRule {
+  /**
+   * Unique ID of the rule, generated when not provided
+   */
+  id?: string;
+  match: AutoReplyMatch;
+  action: AutoReplyAction | AutoReplyAction[];
+  /**
+   * Minimum interval, in seconds, between two replies of this rule in the same chat
+   */
+  cooldown?: number;
+  businessHours?: AutoReplyBusinessHours;
+  /**
+   * Reply only to the first contact of each chat,
+   * ignored when the chat already received a reply of any rule
+   */
+  firstMessageOnly?: boolean;
+  /**
+   * Only trigger the `autoreply.matched` event, without execute the actions
+   */
+  dryRun?: boolean;
+}
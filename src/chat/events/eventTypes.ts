@@ -16,6 +16,10 @@
 
 import { Label } from '../../labels';
 import { ChatModel, MsgKey, MsgModel, Wid } from '../../whatsapp';
+import { EventResponseType } from '../functions/getEventResponses';
+import { PollResults } from '../functions/getPollResults';
+import { RevokedMessageContent } from '../functions/getRevokedMessages';
+import { ScheduledMessage } from '../functions/scheduleMessage';
 
 export interface ChatEventTypes {
   /**
@@ -54,6 +58,22 @@ export interface ChatEventTypes {
      */
     previousUnreadCount: number;
   };
+  /**
+   * Triggered when a received message mentions me (by phone number or LID),
+   * or when someone replies to one of my messages in a group
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.mentioned', ({ chat, msg, type }) => {
+   *   // Your code
+   * });
+   * ```
+   */
+  'chat.mentioned': {
+    chat: Wid;
+    msg: MsgModel;
+    type: 'mention' | 'reply';
+  };
   'chat.msg_revoke': {
     /**
      * Author of message, only for groups
@@ -73,6 +93,11 @@ export interface ChatEventTypes {
      * Type of revoke
      */
     type: 'revoke' | 'sender_revoke' | 'admin_revoke';
+    /**
+     * Content of the revoked message,
+     * only when the `revokedMessagesCache` config is enabled
+     */
+    original?: RevokedMessageContent;
   };
   'chat.msg_ack_change': {
     ack: number;
@@ -89,7 +114,65 @@ export interface ChatEventTypes {
      */
     ids: MsgKey[];
   };
+  /**
+   * Triggered when a participant's receipt (delivered, read or played)
+   * of a message sent by me changes, see {@link getMessageInfo}
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.msg_info_changed', (info) => {
+   *   console.log(info.participant.toString(), info.status, info.id.toString());
+   * });
+   * ```
+   */
+  'chat.msg_info_changed': {
+    /**
+     * Message id, like the message in the MsgStore when loaded
+     */
+    id: MsgKey;
+    chat: Wid;
+    /**
+     * Who sent the receipt, for individual chats it is the chat
+     */
+    participant: Wid;
+    ack: number;
+    status: 'delivered' | 'read' | 'played';
+    /**
+     * Timestamp of the receipt in seconds
+     */
+    t: number;
+  };
 
+  /**
+   * Triggered when a message is starred, in this device or in the phone
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.msg_starred', ({ id, msg }) => {
+   *   // Your code
+   * });
+   * ```
+   */
+  'chat.msg_starred': {
+    chat: Wid;
+    id: MsgKey;
+    msg: MsgModel;
+  };
+  /**
+   * Triggered when a message is unstarred, in this device or in the phone
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.msg_unstarred', ({ id, msg }) => {
+   *   // Your code
+   * });
+   * ```
+   */
+  'chat.msg_unstarred': {
+    chat: Wid;
+    id: MsgKey;
+    msg: MsgModel;
+  };
   /**
    * On Message edit
    */
@@ -97,8 +180,24 @@ export interface ChatEventTypes {
     chat: Wid;
     id: string;
     msg: MsgModel;
+    /**
+     * The text (or caption) before the edit, only when the
+     * `trackEditHistory` config is enabled and the message
+     * was loaded before the edit
+     */
+    previousBody?: string;
   };
 
+  /**
+   * Triggered when a contact starts sharing the live location
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.live_location_start', (data) => {
+   *   console.log(data.id.toString(), data.lat, data.lng);
+   * });
+   * ```
+   */
   'chat.live_location_start': {
     id: Wid;
     msgId: MsgKey;
@@ -111,11 +210,26 @@ export interface ChatEventTypes {
     shareDuration: number;
   };
   /**
-   * @deprecated Temporary unsuported by WhatsApp Web Multi-Device
+   * Triggered when a live location receives a new position
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.live_location_update', (data) => {
+   *   console.log(data.id.toString(), data.lat, data.lng, data.elapsed);
+   * });
+   * ```
    */
   'chat.live_location_update': {
     id: Wid;
+    msgId: MsgKey;
+    chat: Wid;
+    /**
+     * Unix timestamp in seconds of the update
+     */
     lastUpdated: number;
+    /**
+     * Seconds since the start of the sharing
+     */
     elapsed: number;
     lat: number;
     lng: number;
@@ -125,7 +239,14 @@ export interface ChatEventTypes {
     comment: string;
   };
   /**
-   * @deprecated Temporary unsuported by WhatsApp Web Multi-Device
+   * Triggered when a live location was stopped or expired
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.live_location_end', (data) => {
+   *   // Your code
+   * });
+   * ```
    */
   'chat.live_location_end': {
     id: Wid;
@@ -133,6 +254,47 @@ export interface ChatEventTypes {
     seq: number;
   };
 
+  /**
+   * Triggered while a media file is uploaded to the WhatsApp servers
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.media_upload_progress', ({ id, loaded, total }) => {
+   *   console.log(id, `${Math.round((loaded / total) * 100)}%`);
+   * });
+   * ```
+   */
+  'chat.media_upload_progress': {
+    /**
+     * Message ID, when the upload was started by {@link sendFileMessage}
+     */
+    id?: string;
+    loaded: number;
+    total: number;
+  };
+
+  /**
+   * Triggered while a media file is downloaded from the WhatsApp servers
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.media_download_progress', ({ id, loaded, total }) => {
+   *   console.log(id, loaded, total);
+   * });
+   * ```
+   */
+  'chat.media_download_progress': {
+    /**
+     * Message ID, when the download was started by {@link downloadMedia}
+     */
+    id?: string;
+    loaded: number;
+    /**
+     * Total of bytes, `0` when unknown
+     */
+    total: number;
+  };
+
   /**
    * Triggered when a new reaction is received
    *
@@ -193,6 +355,40 @@ export interface ChatEventTypes {
     sender: Wid;
   };
 
+  /**
+   * Triggered when a poll receives a new vote, or a vote was changed,
+   * with the aggregated results of the poll
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.poll_results_changed', (results) => {
+   *   for (const option of results.options) {
+   *     console.log(option.name, option.count);
+   *   }
+   * });
+   * ```
+   */
+  'chat.poll_results_changed': PollResults;
+
+  /**
+   * Triggered when a participant responds (RSVP) to an event message
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.event_response', (data) => {
+   *   console.log(data.sender.toString(), data.response);
+   * });
+   * ```
+   */
+  'chat.event_response': {
+    msgId: MsgKey;
+    chatId: Wid;
+    name: string;
+    response: EventResponseType;
+    timestamp: number;
+    sender: Wid;
+  };
+
   /**
    * On Labels update
    */
@@ -202,4 +398,34 @@ export interface ChatEventTypes {
     labels: Label[];
     type: 'add' | 'remove';
   };
+
+  /**
+   * Triggered when a scheduled message was not sent at the scheduled time,
+   * because the page was closed, and its missed policy is `emit`
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.scheduled_message_missed', (scheduled) => {
+   *   // Your code
+   * });
+   * ```
+   */
+  'chat.scheduled_message_missed': ScheduledMessage;
+
+  /**
+   * Triggered when a scheduled message could not be sent,
+   * the message is kept and sent again in the next connection
+   * until it is canceled with {@link cancelScheduledMessage}
+   *
+   * @example
+   * ```javascript
+   * WPP.on('chat.scheduled_message_failed', ({ scheduled, error }) => {
+   *   WPP.chat.cancelScheduledMessage(scheduled.id);
+   * });
+   * ```
+   */
+  'chat.scheduled_message_failed': {
+    scheduled: ScheduledMessage;
+    error: any;
+  };
 }
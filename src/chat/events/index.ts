@@ -16,12 +16,17 @@
 
 import './registerAckMessageEvent';
 import './registerActiveChatEvent';
+import './registerEventResponseEvent';
 import './registerLiveLocationUpdateEvent';
+import './registerMediaProgressEvent';
+import './registerMentionedEvent';
+import './registerMsgInfoEvent';
 import './registerNewMessageEvent';
 import './registerPollEvent';
 import './registerPresenceChange';
 import './registerReactionsEvent';
 import './registerRevokeMessageEvent';
+import './registerStarMessageEvent';
 import './registerLabelEvent';
 import './registerEditedMessageEvent';
 import './registerUnreadCountEvent';
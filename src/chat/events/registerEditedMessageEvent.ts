@@ -14,19 +14,97 @@
  * limitations under the License.
  */
 
+import Debug from 'debug';
+
+import { config } from '../../config';
 import { internalEv } from '../../eventEmitter';
 import * as webpack from '../../webpack';
 import { MsgModel, MsgStore } from '../../whatsapp';
+import { recordEdit } from '../functions/getEditHistory';
+
+const debug = Debug('WA-JS:chat:edit');
 
 webpack.onFullReady(registerAckMessageEvent);
 
+/**
+ * Last known text of the recent messages, used to get the text before an edit,
+ * only filled when the `trackEditHistory` config is enabled
+ */
+const lastBodies = new Map<string, string>();
+
+const MAX_BODIES = 5000;
+
+function getBody(msg: MsgModel): string | undefined {
+  return msg.type === 'chat' ? msg.body : msg.caption;
+}
+
 function registerAckMessageEvent() {
+  const storeBody = (msg: MsgModel) => {
+    const body = getBody(msg);
+    if (!config.trackEditHistory || typeof body !== 'string') {
+      return;
+    }
+
+    // The map is sorted by insertion time, so the oldest are removed first
+    const id = msg.id.toString();
+    lastBodies.delete(id);
+    lastBodies.set(id, body);
+
+    for (const key of lastBodies.keys()) {
+      if (lastBodies.size <= MAX_BODIES) {
+        break;
+      }
+      lastBodies.delete(key);
+    }
+  };
+
+  if (config.trackEditHistory) {
+    MsgStore.getModelsArray().forEach(storeBody);
+  }
+
+  internalEv.on('config.update', ({ path }) => {
+    if (path[0] !== 'trackEditHistory') {
+      return;
+    }
+    if (config.trackEditHistory) {
+      MsgStore.getModelsArray().forEach(storeBody);
+    } else {
+      lastBodies.clear();
+    }
+  });
+
+  MsgStore.on('add', storeBody);
+  MsgStore.on('remove', (msg: MsgModel) => {
+    lastBodies.delete(msg.id.toString());
+  });
+
+  // Fill the text of messages decrypted after added
+  const fillBody = (msg: MsgModel) => {
+    if (!lastBodies.has(msg.id.toString())) {
+      storeBody(msg);
+    }
+  };
+  MsgStore.on('change:body', fillBody);
+  MsgStore.on('change:caption', fillBody);
+
   MsgStore.on('change:latestEditMsgKey', (msg: MsgModel) => {
+    const id = msg.id.toString();
+    const previousBody = lastBodies.get(id);
+    const body = getBody(msg);
+
+    if (typeof body === 'string') {
+      storeBody(msg);
+      recordEdit(msg, body, previousBody).catch((error) => {
+        debug('failed to record the edit history', error);
+      });
+    }
+
     queueMicrotask(() => {
       internalEv.emit('chat.msg_edited', {
         chat: msg.to!,
-        id: msg.id.toString(),
+        id,
         msg: msg,
+        previousBody,
       });
     });
   });
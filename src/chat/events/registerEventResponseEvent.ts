@@ -0,0 +1,62 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { internalEv } from '../../eventEmitter';
+import * as webpack from '../../webpack';
+import { wrapModuleFunction } from '../../whatsapp/exportModule';
+import { upsertEventResponses } from '../../whatsapp/functions';
+import {
+  getEventMessage,
+  toEventResponseType,
+} from '../functions/getEventResponses';
+
+webpack.onFullReady(register);
+
+const now = Date.now();
+
+function register() {
+  wrapModuleFunction(upsertEventResponses, async (func, ...args) => {
+    const [data] = args;
+
+    for (const d of data) {
+      try {
+        if (d.senderTimestampMs < now) {
+          continue;
+        }
+
+        const response = toEventResponseType(d.eventResponse);
+        if (!response) {
+          continue;
+        }
+
+        const msg = await getEventMessage(d.parentMsgKey);
+
+        internalEv
+          .emitAsync('chat.event_response', {
+            msgId: d.parentMsgKey,
+            chatId: d.parentMsgKey.remote,
+            name: msg.eventName || '',
+            response,
+            timestamp: d.senderTimestampMs,
+            sender: d.sender,
+          })
+          .catch(() => null);
+      } catch (_error) {}
+    }
+
+    return func(...args);
+  });
+}
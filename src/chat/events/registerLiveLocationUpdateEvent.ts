@@ -16,13 +16,84 @@
 
 import { internalEv } from '../../eventEmitter';
 import * as webpack from '../../webpack';
-import { MsgModel, MsgStore } from '../../whatsapp';
+import { MsgKey, MsgModel, MsgStore, Wid } from '../../whatsapp';
 
 webpack.onInjected(() => registerLiveLocationUpdateEvent());
 
+interface LiveLocationShare {
+  id: Wid;
+  msgId: MsgKey;
+  chat: Wid;
+  startedAt: number;
+  seq: number;
+  lastPosition: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Active shares, the key is `<chat>|<sender>`
+ */
+const shares = new Map<string, LiveLocationShare>();
+
+function getSender(msg: MsgModel): Wid {
+  return msg.sender || msg.author || msg.from!;
+}
+
+function getShareKey(msg: MsgModel) {
+  return `${msg.id.remote.toString()}|${getSender(msg).toString()}`;
+}
+
+function endShare(key: string) {
+  const share = shares.get(key);
+  if (!share) {
+    return;
+  }
+
+  clearTimeout(share.timer);
+  shares.delete(key);
+
+  internalEv.emit('chat.live_location_end', {
+    id: share.id,
+    chat: share.chat,
+    seq: share.seq,
+  });
+}
+
+function emitUpdate(share: LiveLocationShare, msg: MsgModel) {
+  const position = `${msg.lat},${msg.lng},${msg.sequence}`;
+
+  // The position didn't change or it is an old update
+  if (
+    position === share.lastPosition ||
+    (typeof msg.sequence === 'number' && msg.sequence < share.seq)
+  ) {
+    return;
+  }
+
+  share.lastPosition = position;
+  share.seq = msg.sequence ?? share.seq + 1;
+
+  const now = Math.floor(Date.now() / 1000);
+
+  internalEv.emit('chat.live_location_update', {
+    id: share.id,
+    msgId: share.msgId,
+    chat: share.chat,
+    lastUpdated: now,
+    elapsed: now - share.startedAt,
+    lat: msg.lat!,
+    lng: msg.lng!,
+    accuracy: msg.accuracy,
+    speed: msg.speed,
+    degrees: msg.degrees,
+    comment: msg.comment || '',
+  });
+}
+
 function registerLiveLocationUpdateEvent() {
   /**
-   * For each new live detection, fecth initial data and start update handler
+   * For each new live detection, fecth initial data and start update handler.
+   * In multi-device the updates are received as new live location messages
    */
   MsgStore.on('add', (msg: MsgModel) => {
     if (!msg.isNewMsg || !msg.isLive) {
@@ -30,8 +101,28 @@ function registerLiveLocationUpdateEvent() {
     }
 
     queueMicrotask(() => {
+      const key = getShareKey(msg);
+      const share = shares.get(key);
+
+      if (share && !share.msgId.equals(msg.id)) {
+        emitUpdate(share, msg);
+        return;
+      }
+
+      const shareDuration = msg.shareDuration!;
+
+      shares.set(key, {
+        id: getSender(msg),
+        msgId: msg.id,
+        chat: msg.chat!.id,
+        startedAt: msg.t || Math.floor(Date.now() / 1000),
+        seq: msg.sequence || 0,
+        lastPosition: `${msg.lat},${msg.lng},${msg.sequence}`,
+        timer: setTimeout(() => endShare(key), (shareDuration || 0) * 1000),
+      });
+
       internalEv.emit('chat.live_location_start', {
-        id: msg.sender!,
+        id: getSender(msg),
         msgId: msg.id,
         chat: msg.chat!.id,
         lat: msg.lat!,
@@ -39,8 +130,25 @@ function registerLiveLocationUpdateEvent() {
         accuracy: msg.accuracy,
         speed: msg.speed,
         degrees: msg.degrees,
-        shareDuration: msg.shareDuration!,
+        shareDuration,
       });
     });
   });
+
+  /**
+   * Updates applied to the original message
+   */
+  MsgStore.on('change:lat change:lng change:sequence', (msg: MsgModel) => {
+    const share = shares.get(getShareKey(msg));
+    if (share && share.msgId.equals(msg.id)) {
+      queueMicrotask(() => emitUpdate(share, msg));
+    }
+  });
+
+  MsgStore.on('change:isLive', (msg: MsgModel) => {
+    const key = getShareKey(msg);
+    if (!msg.isLive && shares.get(key)?.msgId.equals(msg.id)) {
+      endShare(key);
+    }
+  });
 }
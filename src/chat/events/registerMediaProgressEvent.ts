@@ -0,0 +1,294 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as webpack from '../../webpack';
+import { wrapModuleFunction } from '../../whatsapp/exportModule';
+import { uploadMedia } from '../../whatsapp/functions';
+import {
+  combineAbortSignals,
+  emitMediaTransferProgress,
+  everyAbortSignal,
+  findDownloadTransfer,
+  findUploadTransfers,
+  MediaTransfer,
+  MediaTransferProgress,
+} from '../util/mediaTransfer';
+
+interface ActiveUpload {
+  transfers: MediaTransfer[];
+  total: number;
+}
+
+/**
+ * Uploads in progress, the key is the signal given to the upload,
+ * used to find the upload of a request
+ */
+const activeUploads = new WeakMap<AbortSignal, ActiveUpload>();
+
+webpack.onInjected(register);
+
+webpack.onFullReady(() => {
+  wrapModuleFunction(uploadMedia, async (func, ...args) => {
+    const [data, ...rest] = args;
+    const transfers = findUploadTransfers(data.mediaObject?.filehash);
+
+    // A new signal for each upload links the request to this upload
+    const signal = combineAbortSignals(
+      data.signal,
+      everyAbortSignal(transfers.map((t) => t.signal)),
+      new AbortController().signal
+    )!;
+
+    const upload: ActiveUpload = {
+      transfers,
+      total: data.mediaObject?.size || 0,
+    };
+    activeUploads.set(signal, upload);
+
+    emitUploadProgress(upload, 0);
+    try {
+      const result = await func({ ...data, signal }, ...rest);
+      emitUploadProgress(upload, upload.total);
+      return result;
+    } finally {
+      activeUploads.delete(signal);
+      for (const transfer of transfers) {
+        transfer.onUploadEnd?.();
+      }
+    }
+  });
+});
+
+function emitUploadProgress(upload: ActiveUpload, loaded: number) {
+  const progress: MediaTransferProgress = { loaded, total: upload.total };
+
+  if (!upload.transfers.length) {
+    emitMediaTransferProgress('upload', undefined, progress);
+  }
+  for (const transfer of upload.transfers) {
+    emitMediaTransferProgress('upload', transfer, progress);
+  }
+}
+
+/**
+ * Type of a media request, only the WhatsApp media servers are tracked
+ */
+function getTransferType(
+  url: string,
+  method: string
+): 'upload' | 'download' | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, location.href);
+  } catch (_error) {
+    return null;
+  }
+
+  if (!/(^|\.)whatsapp\.net$/.test(parsed.hostname)) {
+    return null;
+  }
+  if (method === 'POST' && parsed.pathname.startsWith('/mms/')) {
+    return 'upload';
+  }
+  if (
+    method === 'GET' &&
+    (parsed.pathname.startsWith('/v/') || parsed.pathname.startsWith('/d/f/'))
+  ) {
+    return 'download';
+  }
+  return null;
+}
+
+function isXMLHttpRequestBody(
+  body: BodyInit | null | undefined
+): body is XMLHttpRequestBodyInit {
+  return (
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    typeof body === 'string'
+  );
+}
+
+/**
+ * Keep the fields that can't be passed to the Response constructor
+ */
+function withResponseFields(
+  response: Response,
+  fields: Pick<Response, 'url' | 'redirected' | 'type'>
+): Response {
+  return Object.defineProperties(response, {
+    url: { value: fields.url },
+    redirected: { value: fields.redirected },
+    type: { value: fields.type },
+  });
+}
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Send a request with XMLHttpRequest, because the fetch API
+ * doesn't report the upload progress
+ */
+function sendWithUploadProgress(
+  url: string,
+  init: RequestInit & { body: XMLHttpRequestBodyInit },
+  onProgress: (progress: MediaTransferProgress) => void
+): Promise<Response> {
+  return new Promise<Response>((resolve, reject) => {
+    const signal = init.signal;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'POST', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    new Headers(init.headers).forEach((value, key) => {
+      xhr.setRequestHeader(key, value);
+    });
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      onProgress({
+        loaded: event.loaded,
+        total: event.lengthComputable ? event.total : 0,
+      });
+    };
+    xhr.onload = () => {
+      cleanup();
+
+      const responseUrl = xhr.responseURL || url;
+      const isNullBody = [101, 204, 205, 304].includes(xhr.status);
+      const response = new Response(isNullBody ? null : xhr.response, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+      });
+
+      resolve(
+        withResponseFields(response, {
+          url: responseUrl,
+          redirected: responseUrl !== url,
+          type:
+            new URL(responseUrl).origin === location.origin ? 'basic' : 'cors',
+        })
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Failed to fetch'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+
+    xhr.send(init.body);
+  });
+}
+
+function register() {
+  const originalFetch = window.fetch;
+
+  window.fetch = async function (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> {
+    const url =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url;
+    const method = (
+      init?.method || (input instanceof Request ? input.method : 'GET')
+    ).toUpperCase();
+
+    const type = getTransferType(url, method);
+    if (!type) {
+      return originalFetch.call(this, input, init);
+    }
+
+    if (type === 'upload') {
+      // Only the requests of a wrapped upload, with a body supported by XHR
+      const upload = init?.signal ? activeUploads.get(init.signal) : undefined;
+      const body = init?.body;
+      if (!upload || input instanceof Request || !isXMLHttpRequestBody(body)) {
+        return originalFetch.call(this, input, init);
+      }
+
+      const absoluteUrl = new URL(url, location.href).href;
+      return sendWithUploadProgress(absoluteUrl, { ...init, body }, (p) => {
+        upload.total = p.total || upload.total;
+        emitUploadProgress(upload, p.loaded);
+      });
+    }
+
+    const transfer = findDownloadTransfer(url);
+    const signal = combineAbortSignals(
+      init?.signal || (input instanceof Request ? input.signal : null),
+      transfer?.signal
+    );
+
+    const response = await originalFetch.call(this, input, {
+      ...init,
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      return response;
+    }
+
+    const total = Number(response.headers.get('content-length')) || 0;
+    let loaded = 0;
+
+    const body = response.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          loaded += chunk.byteLength;
+          emitMediaTransferProgress(type, transfer, { loaded, total });
+          controller.enqueue(chunk);
+        },
+      })
+    );
+
+    return withResponseFields(
+      new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      }),
+      response
+    );
+  };
+}
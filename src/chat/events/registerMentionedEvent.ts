@@ -0,0 +1,58 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { internalEv } from '../../eventEmitter';
+import { MsgModel, UserPrefs, Wid } from '../../whatsapp';
+
+internalEv.on('chat.new_message', (msg) => {
+  if (msg.id.fromMe || msg.type === 'ciphertext' || msg.isNotification) {
+    return;
+  }
+
+  const mePN = UserPrefs.getMaybeMePnUser();
+  const meLID = UserPrefs.getMaybeMeLidUser();
+
+  // Mentions can use the phone number or the LID
+  const isMe = (wid?: Wid | null) =>
+    !!wid && ((!!mePN && mePN.equals(wid)) || (!!meLID && meLID.equals(wid)));
+
+  let type: 'mention' | 'reply' | null = null;
+
+  if (msg.mentionedJidList?.some((wid) => isMe(wid))) {
+    type = 'mention';
+  } else if (msg.id.remote.isGroup() && isReplyToMe(msg, isMe)) {
+    type = 'reply';
+  }
+
+  if (type) {
+    internalEv.emit('chat.mentioned', {
+      chat: msg.id.remote,
+      msg,
+      type,
+    });
+  }
+});
+
+function isReplyToMe(
+  msg: MsgModel,
+  isMe: (wid?: Wid | null) => boolean
+): boolean {
+  if (!msg.quotedStanzaID) {
+    return false;
+  }
+
+  return isMe(msg.quotedParticipant) || !!msg.quotedMsgId?.fromMe;
+}
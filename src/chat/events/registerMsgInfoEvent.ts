@@ -0,0 +1,56 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { internalEv } from '../../eventEmitter';
+import * as webpack from '../../webpack';
+import { ChatStore } from '../../whatsapp';
+import { ACK } from '../../whatsapp/enums';
+
+webpack.onFullReady(registerMsgInfoEvent);
+
+function registerMsgInfoEvent() {
+  const statusByAck: {
+    [ack: number]: 'delivered' | 'read' | 'played';
+  } = {
+    [ACK.RECEIVED]: 'delivered',
+    [ACK.READ]: 'read',
+    [ACK.PLAYED]: 'played',
+  };
+
+  internalEv.on('chat.msg_ack_change', ({ ack, chat, sender, ids }) => {
+    const status = statusByAck[ack];
+    if (!status) {
+      return;
+    }
+
+    const t = Math.floor(Date.now() / 1000);
+    const chatModel = ChatStore.get(chat);
+
+    for (const key of ids) {
+      // The receipt key contains the participant, so use the loaded message id
+      const msg = chatModel?.msgs.findFirst((m) => m.id.id === key.id);
+
+      internalEv.emit('chat.msg_info_changed', {
+        id: msg?.id || key,
+        chat,
+        participant: sender || chat,
+        ack,
+        status,
+        t,
+      });
+    }
+  });
+}
@@ -16,9 +16,10 @@
 
 import { internalEv } from '../../eventEmitter';
 import * as webpack from '../../webpack';
+import { MsgKey } from '../../whatsapp';
 import { wrapModuleFunction } from '../../whatsapp/exportModule';
 import { upsertVotes } from '../../whatsapp/functions';
-import { getMessageById } from '../functions';
+import { getMessageById, getPollResults } from '../functions';
 
 webpack.onFullReady(register);
 
@@ -28,11 +29,14 @@ function register() {
   wrapModuleFunction(upsertVotes, async (func, ...args) => {
     const [data] = args;
 
+    const changedPolls = new Map<string, MsgKey>();
+
     for (const d of data) {
       try {
         if (d.senderTimestampMs < now) {
           continue;
         }
+        changedPolls.set(d.parentMsgKey.toString(), d.parentMsgKey);
 
         const msg = await getMessageById(d.parentMsgKey);
         const selectedOptions: any = [];
@@ -54,6 +58,17 @@ function register() {
       } catch (_error) {}
     }
 
-    return func(...args);
+    const result = await func(...args);
+
+    // Emit the results after the votes were saved
+    for (const msgKey of changedPolls.values()) {
+      getPollResults(msgKey)
+        .then((results) =>
+          internalEv.emitAsync('chat.poll_results_changed', results)
+        )
+        .catch(() => null);
+    }
+
+    return result;
   });
 }
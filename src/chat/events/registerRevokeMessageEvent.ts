@@ -14,13 +14,55 @@
  * limitations under the License.
  */
 
+import Debug from 'debug';
+
+import { config } from '../../config';
 import { internalEv } from '../../eventEmitter';
 import * as webpack from '../../webpack';
-import { MsgStore, Wid } from '../../whatsapp';
+import { MsgKey, MsgModel, MsgStore, Wid } from '../../whatsapp';
 import { RawMessage } from '..';
+import {
+  cacheRecentMessage,
+  getCachedMessage,
+  getRevokedMessageContent,
+  pruneRevokedStorage,
+  RevokedMessageContent,
+  storeRevokedMessage,
+} from '../functions/getRevokedMessages';
+
+const debug = Debug('WA-JS:chat:revoke');
 
 webpack.onInjected(() => registerRevokeMessageEvent());
 
+webpack.onFullReady(() => {
+  pruneRevokedStorage().catch((error) => {
+    debug('failed to prune the revoked messages', error);
+  });
+
+  // Messages sent by this device are not processed by processMultipleMessages
+  MsgStore.on('add', (msg: MsgModel) => {
+    if (msg.isNewMsg && msg.type !== 'protocol') {
+      cacheRecentMessage(msg);
+    }
+  });
+});
+
+function getOriginalContent(refId: MsgKey): RevokedMessageContent | undefined {
+  if (!config.revokedMessagesCache.enabled) {
+    return;
+  }
+
+  const cached = getCachedMessage(refId);
+  if (cached) {
+    return cached;
+  }
+
+  const msg = MsgStore.get(refId);
+  if (msg) {
+    return getRevokedMessageContent(msg);
+  }
+}
+
 function registerRevokeMessageEvent() {
   /**
    * processMultipleMessages receive all msgs events before the screen processing,
@@ -45,6 +87,19 @@ function registerRevokeMessageEvent() {
           }
 
           if (msg.type === 'protocol' && revokeTypes.includes(msg.subtype!)) {
+            const original = getOriginalContent(msg.protocolMessageKey!);
+
+            if (original) {
+              storeRevokedMessage({
+                ...original,
+                revokedAt: Date.now(),
+                revokedBy: (msg.author || msg.from)?.toString(),
+                revokeType: msg.subtype as any,
+              }).catch((error) => {
+                debug('failed to store the revoked message', error);
+              });
+            }
+
             internalEv.emit('chat.msg_revoke', {
               author: msg.author,
               from: msg.from!,
@@ -52,7 +107,10 @@ function registerRevokeMessageEvent() {
               refId: msg.protocolMessageKey!,
               to: msg.to!,
               type: msg.subtype as any,
+              original,
             });
+          } else if (msg.type !== 'protocol') {
+            cacheRecentMessage(msg);
           }
         }
       } catch (_error) {}
@@ -0,0 +1,34 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { internalEv } from '../../eventEmitter';
+import * as webpack from '../../webpack';
+import { MsgModel, MsgStore } from '../../whatsapp';
+
+webpack.onFullReady(registerStarMessageEvent);
+
+function registerStarMessageEvent() {
+  // Triggered by starMessage and by the changes synced from the phone
+  MsgStore.on('change:star', (msg: MsgModel) => {
+    queueMicrotask(() => {
+      internalEv.emit(msg.star ? 'chat.msg_starred' : 'chat.msg_unstarred', {
+        chat: msg.id.remote,
+        id: msg.id,
+        msg,
+      });
+    });
+  });
+}
@@ -0,0 +1,48 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { cancelJob, ScheduledMessage } from './scheduleMessage';
+
+/**
+ * Cancel a message scheduled with {@link scheduleMessage}
+ *
+ * @example
+ * ```javascript
+ * const scheduled = await WPP.chat.scheduleMessage('[number]@c.us', 'Hello', {
+ *   sendAt: Date.now() + 60 * 60 * 1000,
+ * });
+ *
+ * await WPP.chat.cancelScheduledMessage(scheduled.id);
+ * ```
+ *
+ * @category Message
+ */
+export async function cancelScheduledMessage(
+  id: string
+): Promise<ScheduledMessage> {
+  const job = await cancelJob(id);
+
+  if (!job) {
+    throw new WPPError(
+      'scheduled_message_not_found',
+      `Scheduled message ${id} not found`,
+      { id }
+    );
+  }
+
+  return job;
+}
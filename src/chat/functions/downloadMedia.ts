@@ -18,6 +18,11 @@ import Debug from 'debug';
 
 import { toArrayBuffer, WPPError } from '../../util';
 import { LruMediaStore, MediaBlobCache } from '../../whatsapp';
+import {
+  emitMediaTransferProgress,
+  MediaTransferOptions,
+  trackMediaTransfer,
+} from '../util/mediaTransfer';
 import { getMessageById } from '.';
 
 const debug = Debug('WA-JS:chat:downloadMedia');
@@ -31,11 +36,31 @@ const debug = Debug('WA-JS:chat:downloadMedia');
  *
  * // Get a base64Content
  * await WPP.chat.downloadMedia('true_[number]@c.us_ABCDEF').then(WPP.util.blobToBase64);
+ *
+ * // Show the progress and allow to cancel the download
+ * const controller = new AbortController();
+ * await WPP.chat.downloadMedia('true_[number]@c.us_ABCDEF', {
+ *   onProgress: ({ loaded, total }) => console.log(loaded, total),
+ *   signal: controller.signal,
+ * });
  * ```
  *
  * @category Message
  */
-export async function downloadMedia(id: string): Promise<Blob> {
+export async function downloadMedia(
+  id: string,
+  options: MediaTransferOptions = {}
+): Promise<Blob> {
+  if (options.signal?.aborted) {
+    throw new WPPError(
+      'media_download_aborted',
+      `The media download of message ${id} was aborted`,
+      {
+        id,
+      }
+    );
+  }
+
   const msg = await getMessageById(id);
 
   if (!msg.mediaData) {
@@ -86,16 +111,43 @@ export async function downloadMedia(id: string): Promise<Blob> {
   const cached = await getFromCache();
 
   if (cached) {
+    emitMediaTransferProgress(
+      'download',
+      { type: 'download', id, key: '', ...options },
+      { loaded: cached.size, total: cached.size }
+    );
     return cached;
   }
 
   debug('Downloading media for message', id);
-  await msg.downloadMedia({
-    downloadEvenIfExpensive: true,
-    rmrReason: 1,
-    isUserInitiated: true,
+  const untrack = trackMediaTransfer({
+    type: 'download',
+    id,
+    key: mediaData.directPath?.split('?')[0] || '',
+    onProgress: options.onProgress,
+    signal: options.signal,
   });
 
+  try {
+    await msg.downloadMedia({
+      downloadEvenIfExpensive: true,
+      rmrReason: 1,
+      isUserInitiated: true,
+    });
+  } finally {
+    untrack();
+  }
+
+  if (options.signal?.aborted) {
+    throw new WPPError(
+      'media_download_aborted',
+      `The media download of message ${id} was aborted`,
+      {
+        id,
+      }
+    );
+  }
+
   const blob = await getFromCache();
 
   if (!blob && msg.mediaObject?.type === 'VIDEO') {
@@ -103,7 +155,7 @@ export async function downloadMedia(id: string): Promise<Blob> {
     try {
       msg.type = 'document';
       msg.mediaObject.type = 'DOCUMENT';
-      return await downloadMedia(id);
+      return await downloadMedia(id, options);
     } finally {
       msg.type = 'video';
       msg.mediaObject.type = 'VIDEO';
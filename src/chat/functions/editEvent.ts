@@ -0,0 +1,107 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { MsgKey } from '../../whatsapp';
+import { sendEventEditMsg } from '../../whatsapp/functions';
+import { getEventMessage } from './getEventResponses';
+
+export interface EditEventOptions {
+  name?: string;
+  description?: string;
+  startTime?: number;
+  endTime?: number;
+  location?: {
+    degreesLatitude: number;
+    degreesLongitude: number;
+    name: string;
+  };
+}
+
+async function sendEdit(
+  id: string | MsgKey,
+  options: EditEventOptions,
+  isEventCanceled: boolean
+) {
+  const msg = await getEventMessage(id);
+
+  if (!msg.id.fromMe) {
+    throw new WPPError(
+      'event_not_from_me',
+      `Event ${msg.id.toString()} was not created by you`,
+      {
+        id: msg.id.toString(),
+      }
+    );
+  }
+
+  if (msg.isEventCanceled) {
+    throw new WPPError(
+      'event_canceled',
+      `Event ${msg.id.toString()} was canceled`,
+      {
+        id: msg.id.toString(),
+      }
+    );
+  }
+
+  await sendEventEditMsg(
+    {
+      name: options.name ?? msg.eventName ?? ' ',
+      description: options.description ?? msg.eventDescription,
+      startTime: options.startTime ?? msg.eventStartTime!,
+      endTime: options.endTime ?? msg.eventEndTime,
+      location: options.location ?? msg.eventLocation,
+      joinLink: msg.eventJoinLink,
+      isEventCanceled,
+    },
+    msg
+  );
+
+  return msg;
+}
+
+/**
+ * Edit an event created by you, only the given fields are changed
+ *
+ * @example
+ * ```javascript
+ * await WPP.chat.editEvent('true_[number]@g.us_ABCDEF', {
+ *   name: 'New title',
+ *   startTime: 1729555200,
+ * });
+ * ```
+ * @category Chat
+ */
+export async function editEvent(
+  id: string | MsgKey,
+  options: EditEventOptions
+): Promise<void> {
+  await sendEdit(id, options, false);
+}
+
+/**
+ * Cancel an event created by you
+ *
+ * @example
+ * ```javascript
+ * await WPP.chat.cancelEvent('true_[number]@g.us_ABCDEF');
+ * ```
+ * @category Chat
+ */
+export async function cancelEvent(id: string | MsgKey): Promise<void> {
+  await sendEdit(id, {}, true);
+}
@@ -0,0 +1,452 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { assertGetChat } from '../../assert';
+import { blobToBase64 } from '../../util';
+import { createZip, ZipEntry } from '../../util/createZip';
+import { ContactStore, MsgModel, Wid } from '../../whatsapp';
+import {
+  downloadMedia,
+  getQuotedMsgKey,
+  getReactions,
+  getVotes,
+  iterateMessages,
+} from '.';
+
+const debug = Debug('WA-JS:chat:exportChat');
+
+export interface ExportChatOptions {
+  /**
+   * Output format
+   *
+   * @default 'json'
+   */
+  format?: 'json' | 'txt' | 'html';
+  /**
+   * Download and include the media files.
+   * Without `zip`, the media is embedded as data URL in `json` and `html`
+   *
+   * @default false
+   */
+  includeMedia?: boolean;
+  /**
+   * Return a ZIP file with the chat file and the media files
+   *
+   * @default false
+   */
+  zip?: boolean;
+  /**
+   * Only export messages in this period (Date or unix timestamp in seconds)
+   */
+  range?: {
+    since?: Date | number;
+    until?: Date | number;
+  };
+}
+
+export interface ExportedMessage {
+  id: string;
+  timestamp: number;
+  type: string;
+  fromMe: boolean;
+  sender: {
+    id: string;
+    name: string;
+  };
+  body?: string;
+  quoted?: {
+    id: string;
+    body?: string;
+  };
+  reactions?: {
+    emoji: string;
+    senders: string[];
+  }[];
+  edited?: boolean;
+  revoked?: boolean;
+  poll?: {
+    name: string;
+    options: {
+      name: string;
+      votes: number;
+    }[];
+  };
+  media?: {
+    filename: string;
+    mimetype: string;
+    /**
+     * Path of the file inside the ZIP
+     */
+    path?: string;
+    /**
+     * Data URL of the file, when not using ZIP
+     */
+    dataUrl?: string;
+  };
+}
+
+export interface ExportedChat {
+  chatId: string;
+  name: string;
+  exportedAt: number;
+  messages: ExportedMessage[];
+}
+
+function getSenderName(wid: Wid | undefined, msg: MsgModel): string {
+  const contact = wid ? ContactStore.get(wid) : undefined;
+
+  return (
+    contact?.name ||
+    contact?.pushname ||
+    msg.notifyName ||
+    contact?.formattedName ||
+    wid?.user ||
+    ''
+  );
+}
+
+function getExtension(mimetype: string) {
+  return (mimetype.split('/')[1] || 'bin').split(';')[0].replace('+xml', '');
+}
+
+async function serializeMessage(
+  msg: MsgModel,
+  options: ExportChatOptions,
+  files: ZipEntry[]
+): Promise<ExportedMessage> {
+  const senderWid = msg.author || msg.from;
+  const id = msg.id.toString();
+
+  const result: ExportedMessage = {
+    id,
+    timestamp: msg.t!,
+    type: msg.type!,
+    fromMe: msg.id.fromMe,
+    sender: {
+      id: senderWid?.toString() || '',
+      name: getSenderName(senderWid, msg),
+    },
+    body: msg.type === 'chat' ? msg.body : msg.caption,
+  };
+
+  if (msg.type === 'revoked') {
+    result.revoked = true;
+    result.body = undefined;
+  }
+
+  if (msg.latestEditMsgKey) {
+    result.edited = true;
+  }
+
+  if (msg.quotedStanzaID) {
+    result.quoted = {
+      id: getQuotedMsgKey(msg).toString(),
+      body: msg.quotedMsg?.body || msg.quotedMsg?.caption,
+    };
+  }
+
+  if (msg.hasReaction) {
+    try {
+      const { reactions } = await getReactions(id);
+      result.reactions = reactions.map((r) => ({
+        emoji: r.aggregateEmoji,
+        senders: r.senders.map((s: any) => s.sender?.toString()),
+      }));
+    } catch (error) {
+      debug(`failed to get reactions of ${id}`, error);
+    }
+  }
+
+  if (msg.type === 'poll_creation') {
+    const counts: { [localId: number]: number } = {};
+    try {
+      const { votes } = await getVotes(id);
+      for (const vote of votes) {
+        for (const option of vote.selectedOptions as any[]) {
+          if (option) {
+            counts[option.localId] = (counts[option.localId] || 0) + 1;
+          }
+        }
+      }
+    } catch (error) {
+      debug(`failed to get votes of ${id}`, error);
+    }
+
+    result.poll = {
+      name: msg.pollName || '',
+      options: (msg.pollOptions || []).map((o: any) => ({
+        name: o.name,
+        votes: counts[o.localId] || 0,
+      })),
+    };
+  }
+
+  if (msg.isMedia || msg.type === 'document') {
+    const mimetype = msg.mimetype || 'application/octet-stream';
+    const filename =
+      msg.filename || `${msg.type}-${msg.id.id}.${getExtension(mimetype)}`;
+
+    result.media = { filename, mimetype };
+
+    if (options.includeMedia) {
+      try {
+        const blob = await downloadMedia(id);
+        if (options.zip) {
+          const path = `${msg.id.id}-${filename}`;
+          files.push({ name: path, data: blob, date: new Date(msg.t! * 1000) });
+          result.media.path = path;
+        } else {
+          result.media.dataUrl = await blobToBase64(blob);
+        }
+      } catch (error) {
+        debug(`failed to download media of ${id}`, error);
+      }
+    }
+  }
+
+  return result;
+}
+
+function pad(value: number) {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Same layout of the native WhatsApp "Export chat" text file:
+ * `dd/mm/yyyy, hh:mm - Sender: Message`
+ */
+function toText(chat: ExportedChat): string {
+  const lines: string[] = [];
+
+  for (const m of chat.messages) {
+    const date = new Date(m.timestamp * 1000);
+    const prefix =
+      `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}, ` +
+      `${pad(date.getHours())}:${pad(date.getMinutes())} - ${m.sender.name}: `;
+
+    let text = m.body || '';
+
+    if (m.revoked) {
+      text = m.fromMe ? 'You deleted this message' : 'This message was deleted';
+    } else if (m.poll) {
+      text = [
+        'POLL:',
+        m.poll.name,
+        ...m.poll.options.map(
+          (o) =>
+            `OPTION: ${o.name} (${o.votes} ${o.votes === 1 ? 'vote' : 'votes'})`
+        ),
+      ].join('\n');
+    } else if (m.media) {
+      const file = m.media.path
+        ? `${m.media.path} (file attached)`
+        : '<Media omitted>';
+      text = text && text !== m.media.filename ? `${file}\n${text}` : file;
+    }
+
+    if (m.edited) {
+      text += ' <This message was edited>';
+    }
+
+    lines.push(prefix + text);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toHtml(chat: ExportedChat): string {
+  const items = chat.messages.map((m) => {
+    const parts: string[] = [];
+
+    if (m.quoted) {
+      parts.push(`<blockquote>${escapeHtml(m.quoted.body || '')}</blockquote>`);
+    }
+
+    if (m.media) {
+      const src = escapeHtml(m.media.dataUrl || m.media.path || '');
+      const kind = m.media.mimetype.split('/')[0];
+      if (!src) {
+        parts.push(`<p class="media">${escapeHtml(m.media.filename)}</p>`);
+      } else if (kind === 'image') {
+        parts.push(`<img src="${src}" alt="${escapeHtml(m.media.filename)}">`);
+      } else if (kind === 'video') {
+        parts.push(`<video src="${src}" controls></video>`);
+      } else if (kind === 'audio') {
+        parts.push(`<audio src="${src}" controls></audio>`);
+      } else {
+        parts.push(
+          `<a href="${src}" download="${escapeHtml(m.media.filename)}">${escapeHtml(m.media.filename)}</a>`
+        );
+      }
+    }
+
+    if (m.revoked) {
+      parts.push('<p class="info">This message was deleted</p>');
+    } else if (m.poll) {
+      parts.push(
+        `<p><b>${escapeHtml(m.poll.name)}</b></p><ul>` +
+          m.poll.options
+            .map((o) => `<li>${escapeHtml(o.name)} (${o.votes})</li>`)
+            .join('') +
+          '</ul>'
+      );
+    } else if (m.body && m.body !== m.media?.filename) {
+      parts.push(`<p>${escapeHtml(m.body).replace(/\n/g, '<br>')}</p>`);
+    }
+
+    if (m.reactions?.length) {
+      parts.push(
+        `<p class="reactions">${m.reactions
+          .map((r) => `${escapeHtml(r.emoji)} ${r.senders.length}`)
+          .join(' ')}</p>`
+      );
+    }
+
+    const date = new Date(m.timestamp * 1000).toLocaleString();
+
+    return (
+      `<div class="msg ${m.fromMe ? 'out' : 'in'}">` +
+      `<p class="sender">${escapeHtml(m.sender.name)}</p>` +
+      parts.join('') +
+      `<p class="info">${escapeHtml(date)}${m.edited ? ' · edited' : ''}</p>` +
+      '</div>'
+    );
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chat.name)}</title>
+<style>
+body { background: #efeae2; font-family: sans-serif; margin: 0 auto; max-width: 800px; padding: 16px; }
+.msg { background: #fff; border-radius: 8px; clear: both; float: left; margin: 4px 0; max-width: 70%; padding: 6px 10px; }
+.msg.out { background: #d9fdd3; float: right; }
+.msg p { margin: 2px 0; white-space: pre-wrap; }
+.msg img, .msg video { max-width: 100%; }
+.sender { color: #1f7aec; font-weight: bold; }
+.info, .reactions { color: #667781; font-size: 12px; }
+blockquote { border-left: 4px solid #06cf9c; color: #667781; margin: 0 0 4px; padding: 2px 8px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(chat.name)}</h1>
+${items.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Export the messages of a chat to JSON, plain text or HTML.
+ *
+ * The plain text format follows the layout of the native WhatsApp
+ * "Export chat" feature, so existing parsers keep working.
+ *
+ * @example
+ * ```javascript
+ * // Export to JSON
+ * const blob = await WPP.chat.exportChat('[number]@c.us');
+ * const data = JSON.parse(await blob.text());
+ *
+ * // Export to text, like the WhatsApp "Export chat"
+ * const blob = await WPP.chat.exportChat('[number]@c.us', {
+ *   format: 'txt',
+ * });
+ *
+ * // Self-contained HTML with embedded media of a period
+ * const blob = await WPP.chat.exportChat('[number]@c.us', {
+ *   format: 'html',
+ *   includeMedia: true,
+ *   range: {
+ *     since: new Date('2026-01-01'),
+ *     until: new Date('2026-02-01'),
+ *   },
+ * });
+ *
+ * // ZIP file with the HTML and the media files
+ * const zip = await WPP.chat.exportChat('[number]@c.us', {
+ *   format: 'html',
+ *   includeMedia: true,
+ *   zip: true,
+ * });
+ * ```
+ *
+ * @category Chat
+ */
+export async function exportChat(
+  chatId: string | Wid,
+  options: ExportChatOptions = {}
+): Promise<Blob> {
+  const chat = assertGetChat(chatId);
+  const format = options.format || 'json';
+
+  const files: ZipEntry[] = [];
+  const messages: ExportedMessage[] = [];
+
+  const iterator = iterateMessages(chat.id, {
+    direction: 'after',
+    since: options.range?.since,
+    until: options.range?.until,
+  });
+
+  for await (const msg of iterator) {
+    if (msg.isNotification || msg.type === 'e2e_notification') {
+      continue;
+    }
+    messages.push(await serializeMessage(msg, options, files));
+  }
+
+  const data: ExportedChat = {
+    chatId: chat.id.toString(),
+    name: chat.formattedTitle || chat.name || chat.id.user,
+    exportedAt: Date.now(),
+    messages,
+  };
+
+  let content: string;
+  let mimetype: string;
+
+  if (format === 'txt') {
+    content = toText(data);
+    mimetype = 'text/plain';
+  } else if (format === 'html') {
+    content = toHtml(data);
+    mimetype = 'text/html';
+  } else {
+    content = JSON.stringify(data, null, 2);
+    mimetype = 'application/json';
+  }
+
+  if (!options.zip) {
+    return new Blob([content], { type: `${mimetype};charset=utf-8` });
+  }
+
+  return await createZip([
+    { name: `WhatsApp Chat with ${data.name}.${format}`, data: content },
+    ...files,
+  ]);
+}
@@ -0,0 +1,127 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { config } from '../../config';
+import { createIndexedDBStore } from '../../util/indexedDBStore';
+import { MsgKey, MsgModel } from '../../whatsapp';
+
+export interface MessageEditVersion {
+  body: string;
+  /**
+   * Timestamp of the version in milliseconds
+   */
+  timestamp: number;
+  /**
+   * Who wrote this version
+   */
+  editor?: string;
+  /**
+   * The ID of the edit message, not present in the original version
+   */
+  editMsgKey?: string;
+}
+
+export interface MessageEditHistory {
+  id: string;
+  chatId: string;
+  /**
+   * All versions of the message, the first is the original text
+   */
+  versions: MessageEditVersion[];
+}
+
+export const editHistoryStorage =
+  createIndexedDBStore<MessageEditHistory>('edit-history');
+
+/**
+ * Record a new version of an edited message, used by the edit event
+ */
+export async function recordEdit(
+  msg: MsgModel,
+  body: string,
+  previousBody?: string
+): Promise<void> {
+  if (!config.trackEditHistory) {
+    return;
+  }
+
+  const id = msg.id.toString();
+  const editor = (msg.author || msg.from)?.toString();
+
+  const history: MessageEditHistory = (await editHistoryStorage.get(id)) || {
+    id,
+    chatId: msg.id.remote.toString(),
+    versions: [],
+  };
+
+  if (!history.versions.length && previousBody !== undefined) {
+    history.versions.push({
+      body: previousBody,
+      timestamp: msg.t! * 1000,
+      editor,
+    });
+  }
+
+  const editMsgKey = msg.latestEditMsgKey?.toString();
+
+  // The same edit can be triggered more than once
+  if (
+    editMsgKey &&
+    history.versions.some((version) => version.editMsgKey === editMsgKey)
+  ) {
+    return;
+  }
+
+  history.versions.push({
+    body,
+    timestamp: msg.latestEditSenderTimestampMs || Date.now(),
+    editor,
+    editMsgKey,
+  });
+
+  await editHistoryStorage.put(id, history);
+}
+
+/**
+ * Get all recorded versions of an edited message,
+ * from the original text to the latest edit.
+ *
+ * The history is only recorded when the `trackEditHistory` config is enabled,
+ * the original text is only known when the message was loaded before the edit.
+ *
+ * @example
+ * ```javascript
+ * // Enable the history before the edits
+ * WPPConfig = {
+ *   trackEditHistory: true,
+ * };
+ *
+ * const history = await WPP.chat.getEditHistory('false_[number]@c.us_ABCDEF');
+ *
+ * for (const version of history) {
+ *   console.log(new Date(version.timestamp), version.editor, version.body);
+ * }
+ * ```
+ *
+ * @category Message
+ */
+export async function getEditHistory(
+  msgId: string | MsgKey
+): Promise<MessageEditVersion[]> {
+  const history = await editHistoryStorage.get(msgId.toString());
+
+  return history?.versions || [];
+}
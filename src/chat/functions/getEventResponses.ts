@@ -0,0 +1,128 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createWid, WPPError } from '../../util';
+import { MsgKey, MsgModel, Wid } from '../../whatsapp';
+import { getTableEventResponses } from '../../whatsapp/functions';
+import { getMessageById } from './getMessageById';
+
+export type EventResponseType = 'going' | 'not_going' | 'maybe';
+
+/**
+ * Values of the `EventResponseMessage.EventResponseType` proto
+ */
+export const eventResponseValues: { [key in EventResponseType]: number } = {
+  going: 1,
+  not_going: 2,
+  maybe: 3,
+};
+
+export function toEventResponseType(
+  value: number
+): EventResponseType | undefined {
+  return (Object.keys(eventResponseValues) as EventResponseType[]).find(
+    (key) => eventResponseValues[key] === value
+  );
+}
+
+export interface EventResponse {
+  sender: Wid;
+  response: EventResponseType;
+  timestamp: number;
+}
+
+export interface EventResponses {
+  msgId: MsgKey;
+  chatId: Wid;
+  name: string;
+  isCanceled: boolean;
+  going: EventResponse[];
+  notGoing: EventResponse[];
+  maybe: EventResponse[];
+}
+
+export async function getEventMessage(id: string | MsgKey): Promise<MsgModel> {
+  const msgKey = MsgKey.fromString(id.toString());
+  const msg = await getMessageById(msgKey);
+
+  if (msg.type != 'event_creation') {
+    throw new WPPError(
+      'msg_not_found',
+      `Message ${msgKey.toString()} not an event`,
+      {
+        id: msgKey.toString(),
+      }
+    );
+  }
+
+  return msg;
+}
+
+/**
+ * Get the responses (RSVP) of an event, grouped by response
+ *
+ * @example
+ * ```javascript
+ * const responses = await WPP.chat.getEventResponses('true_[number]@c.us_ABCDEF');
+ *
+ * console.log('Going:', responses.going.map((r) => r.sender.toString()));
+ * console.log('Maybe:', responses.maybe.length);
+ * ```
+ * @category Chat
+ */
+export async function getEventResponses(
+  id: string | MsgKey
+): Promise<EventResponses> {
+  const msg = await getEventMessage(id);
+
+  const rows: any[] = await getTableEventResponses().anyOf(
+    ['parentMsgKey'],
+    [msg.id.toString()]
+  );
+
+  const result: EventResponses = {
+    msgId: msg.id,
+    chatId: msg.id.remote,
+    name: msg.eventName || '',
+    isCanceled: !!msg.isEventCanceled,
+    going: [],
+    notGoing: [],
+    maybe: [],
+  };
+
+  for (const row of rows) {
+    const response = toEventResponseType(row.eventResponse);
+    if (!response) {
+      continue;
+    }
+
+    const item: EventResponse = {
+      sender: createWid(row.sender)!,
+      response,
+      timestamp: row.senderTimestampMs,
+    };
+
+    if (response === 'going') {
+      result.going.push(item);
+    } else if (response === 'not_going') {
+      result.notGoing.push(item);
+    } else {
+      result.maybe.push(item);
+    }
+  }
+
+  return result;
+}
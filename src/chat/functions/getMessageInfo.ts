@@ -0,0 +1,142 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import {
+  ContactModel,
+  MsgInfoParticipantModel,
+  MsgInfoStore,
+  MsgKey,
+  UserPrefs,
+  Wid,
+} from '../../whatsapp';
+import { ACK } from '../../whatsapp/enums';
+import { getMessageById } from '.';
+
+export interface MessageInfoParticipant {
+  id: Wid;
+  contact?: ContactModel;
+  /**
+   * The last receipt received from this participant
+   */
+  status: 'pending' | 'delivered' | 'read' | 'played';
+  /**
+   * Timestamps in seconds
+   */
+  deliveredAt?: number;
+  readAt?: number;
+  playedAt?: number;
+}
+
+export interface MessageInfo {
+  id: string;
+  chatId: Wid;
+  ack: ACK;
+  deliveryRemaining: number;
+  readRemaining: number;
+  playedRemaining: number;
+  participants: MessageInfoParticipant[];
+}
+
+/**
+ * Get the delivery, read and played receipts of each participant of a message
+ * sent by me, like the "Message info" screen.
+ *
+ * For groups, the participants that did not receive the message yet are
+ * returned with the `pending` status.
+ *
+ * @example
+ * ```javascript
+ * const info = await WPP.chat.getMessageInfo('true_[number]@g.us_ABCDEF');
+ *
+ * // Who has read the message and when
+ * for (const p of info.participants.filter((p) => p.readAt)) {
+ *   console.log(p.id.toString(), new Date(p.readAt * 1000));
+ * }
+ *
+ * // Who did not read the message yet
+ * const unread = info.participants.filter(
+ *   (p) => p.status === 'pending' || p.status === 'delivered'
+ * );
+ * ```
+ *
+ * @category Message
+ */
+export async function getMessageInfo(
+  msgId: string | MsgKey
+): Promise<MessageInfo> {
+  const msg = await getMessageById(msgId);
+
+  if (!msg.id.fromMe) {
+    throw new WPPError(
+      'message_not_from_me',
+      `The message ${msg.id.toString()} was not sent by me`,
+      { id: msg.id.toString() }
+    );
+  }
+
+  const info = await MsgInfoStore.find(msg.id);
+
+  const participants = new Map<string, MessageInfoParticipant>();
+
+  const add = (
+    p: MsgInfoParticipantModel,
+    field: 'deliveredAt' | 'readAt' | 'playedAt',
+    status: MessageInfoParticipant['status']
+  ) => {
+    const id = p.id.toString();
+    const participant = participants.get(id) || {
+      id: p.id,
+      contact: p.contact,
+      status,
+    };
+
+    participant[field] = p.t;
+    participant.status = status;
+
+    participants.set(id, participant);
+  };
+
+  // From the lowest to the highest status
+  info?.delivery.forEach((p) => add(p, 'deliveredAt', 'delivered'));
+  info?.read.forEach((p) => add(p, 'readAt', 'read'));
+  info?.played.forEach((p) => add(p, 'playedAt', 'played'));
+
+  const groupParticipants =
+    msg.chat?.groupMetadata?.participants.getModelsArray() || [];
+
+  for (const p of groupParticipants) {
+    const id = p.id.toString();
+    if (participants.has(id) || UserPrefs.isMeAccount(p.id)) {
+      continue;
+    }
+    participants.set(id, {
+      id: p.id,
+      contact: p.contact,
+      status: 'pending',
+    });
+  }
+
+  return {
+    id: msg.id.toString(),
+    chatId: msg.id.remote,
+    ack: msg.ack!,
+    deliveryRemaining: info?.deliveryRemaining || 0,
+    readRemaining: info?.readRemaining || 0,
+    playedRemaining: info?.playedRemaining || 0,
+    participants: Array.from(participants.values()),
+  };
+}
@@ -0,0 +1,122 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { MsgKey, MsgModel, Wid } from '../../whatsapp';
+import { getVotes } from '../../whatsapp/functions';
+import { getMessageById } from './getMessageById';
+
+export interface PollOptionResult {
+  localId: number;
+  name: string;
+  count: number;
+  voters: {
+    sender: Wid;
+    timestamp: number;
+  }[];
+}
+
+export interface PollResults {
+  msgId: MsgKey;
+  chatId: Wid;
+  name: string;
+  /**
+   * Max number of options each voter can select, `0` for unlimited
+   */
+  selectableCount: number;
+  options: PollOptionResult[];
+  /**
+   * Number of contacts that voted at least one option
+   */
+  totalVoters: number;
+}
+
+export async function getPollMessage(id: string | MsgKey): Promise<MsgModel> {
+  const msgKey = MsgKey.fromString(id.toString());
+  const msg = await getMessageById(msgKey);
+
+  if (msg.type != 'poll_creation') {
+    throw new WPPError(
+      'msg_not_found',
+      `Message ${msgKey.toString()} not a poll`,
+      {
+        id: msgKey.toString(),
+      }
+    );
+  }
+
+  return msg;
+}
+
+/**
+ * Get the aggregated results of a poll, with the option names,
+ * number of votes and the voters of each option
+ *
+ * @example
+ * ```javascript
+ * const results = await WPP.chat.getPollResults('true_[number]@c.us_ABCDEF');
+ *
+ * for (const option of results.options) {
+ *   console.log(option.name, option.count, option.voters);
+ * }
+ * ```
+ * @category Chat
+ */
+export async function getPollResults(
+  id: string | MsgKey
+): Promise<PollResults> {
+  const msg = await getPollMessage(id);
+
+  const options: PollOptionResult[] = (msg.pollOptions || []).map(
+    (option: any) => ({
+      localId: option.localId,
+      name: option.name,
+      count: 0,
+      voters: [],
+    })
+  );
+
+  const votes = await getVotes([msg.id]);
+  let totalVoters = 0;
+
+  for (const vote of votes) {
+    if (!vote.selectedOptionLocalIds?.length) {
+      continue;
+    }
+    totalVoters++;
+
+    for (const localId of vote.selectedOptionLocalIds) {
+      const option = options.find((o) => o.localId == localId);
+      if (!option) {
+        continue;
+      }
+      option.count++;
+      option.voters.push({
+        sender: vote.sender,
+        timestamp: vote.senderTimestampMs,
+      });
+    }
+  }
+
+  return {
+    msgId: msg.id,
+    chatId: msg.id.remote,
+    name: msg.pollName || '',
+    selectableCount: msg.pollSelectableOptionsCount || 0,
+    options,
+    totalVoters,
+  };
+}
@@ -0,0 +1,229 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertWid } from '../../assert';
+import { config } from '../../config';
+import { createIndexedDBStore } from '../../util/indexedDBStore';
+import { lidPnCache, MsgKey, MsgModel, Wid } from '../../whatsapp';
+import { RawMessage } from '..';
+import {
+  getRevokedMessagesCacheConfig,
+  pruneRecentMessages,
+} from '../util/revokedMessagesCache';
+
+export interface RevokedMessageContent {
+  id: string;
+  chatId: string;
+  sender?: string;
+  notifyName?: string;
+  type?: string;
+  body?: string;
+  caption?: string;
+  /**
+   * Timestamp of the message in seconds
+   */
+  t?: number;
+  /**
+   * Media references, the media can be downloaded while it is available
+   * in the WhatsApp servers
+   */
+  media?: {
+    mimetype?: string;
+    filename?: string;
+    size?: number;
+    directPath?: string;
+    mediaKey?: string;
+    filehash?: string;
+    encFilehash?: string;
+  };
+}
+
+export interface RevokedMessage extends RevokedMessageContent {
+  /**
+   * Timestamp of the revoke in milliseconds
+   */
+  revokedAt: number;
+  revokedBy?: string;
+  revokeType: 'revoke' | 'sender_revoke' | 'admin_revoke';
+}
+
+export const revokedStorage =
+  createIndexedDBStore<RevokedMessage>('revoked-messages');
+
+/**
+ * Remove the revoked messages exceeding the `maxStoredMessages`
+ * and `storedMaxAge` limits from the storage
+ */
+export async function pruneRevokedStorage(): Promise<void> {
+  const { maxStoredMessages, storedMaxAge } = getRevokedMessagesCacheConfig(
+    config.revokedMessagesCache
+  );
+  if (!(maxStoredMessages > 0) && !(storedMaxAge > 0)) {
+    return;
+  }
+
+  const minDate = storedMaxAge > 0 ? Date.now() - storedMaxAge * 1000 : 0;
+
+  // The newest first
+  const list = (await revokedStorage.getAll()).sort(
+    (a, b) => b.revokedAt - a.revokedAt
+  );
+
+  const expired = list.filter(
+    (m, index) =>
+      m.revokedAt < minDate ||
+      (maxStoredMessages > 0 && index >= maxStoredMessages)
+  );
+
+  for (const m of expired) {
+    await revokedStorage.delete(m.id);
+  }
+}
+
+/**
+ * Keep a revoked message in the storage, respecting the retention limits
+ */
+export async function storeRevokedMessage(
+  revoked: RevokedMessage
+): Promise<void> {
+  await revokedStorage.put(revoked.id, revoked);
+  await pruneRevokedStorage();
+}
+
+/**
+ * Recent messages content, the key is the message ID without the chat,
+ * because the revoke can use a LID or a phone number for the same chat
+ */
+const recentMessages = new Map<
+  string,
+  { content: RevokedMessageContent; cachedAt: number }
+>();
+
+/**
+ * Extract the content of a message to be kept when it is revoked
+ */
+export function getRevokedMessageContent(
+  msg: RawMessage | MsgModel
+): RevokedMessageContent {
+  const content: RevokedMessageContent = {
+    id: msg.id!.toString(),
+    chatId: msg.id!.remote.toString(),
+    sender: (msg.author || msg.from)?.toString(),
+    notifyName: msg.notifyName || undefined,
+    type: msg.type,
+    body: msg.type === 'chat' ? msg.body : undefined,
+    caption: msg.caption,
+    t: msg.t,
+  };
+
+  if (msg.directPath || msg.mediaKey) {
+    content.media = {
+      mimetype: msg.mimetype,
+      filename: msg.filename,
+      size: msg.size,
+      directPath: msg.directPath,
+      mediaKey: msg.mediaKey,
+      filehash: msg.filehash,
+      encFilehash: msg.encFilehash,
+    };
+  }
+
+  return content;
+}
+
+/**
+ * Keep the content of a new message, only when the cache is enabled
+ */
+export function cacheRecentMessage(msg: RawMessage | MsgModel): void {
+  if (!config.revokedMessagesCache.enabled || !msg.id) {
+    return;
+  }
+
+  const key = msg.id.id;
+  recentMessages.delete(key);
+  recentMessages.set(key, {
+    content: getRevokedMessageContent(msg),
+    cachedAt: Date.now(),
+  });
+
+  pruneRecentMessages(recentMessages, config.revokedMessagesCache);
+}
+
+export function getCachedMessage(
+  id: MsgKey
+): RevokedMessageContent | undefined {
+  pruneRecentMessages(recentMessages, config.revokedMessagesCache);
+  return recentMessages.get(id.id)?.content;
+}
+
+/**
+ * IDs of a chat, the revoke can be recorded using the LID
+ * or the phone number of the same contact
+ */
+function getChatIds(wid: Wid): string[] {
+  const ids = [wid.toString()];
+
+  const other = wid.isLid()
+    ? lidPnCache.getPhoneNumber(wid)
+    : wid.server === 'c.us'
+      ? lidPnCache.getCurrentLid(wid)
+      : null;
+  if (other) {
+    ids.push(other.toString());
+  }
+
+  return ids;
+}
+
+/**
+ * Get the messages revoked (deleted for everyone) while the
+ * `revokedMessagesCache` config was enabled, the newest first.
+ *
+ * Only messages received or loaded before the revoke have their content,
+ * the revoked messages are kept in the browser storage until the
+ * `maxStoredMessages` or `storedMaxAge` limits are reached
+ *
+ * @example
+ * ```javascript
+ * // Enable the cache before the revoke
+ * WPPConfig = {
+ *   revokedMessagesCache: { enabled: true, maxMessages: 5000, maxAge: 86400 },
+ * };
+ *
+ * // Revoked messages of a chat
+ * const revoked = await WPP.chat.getRevokedMessages('[number]@c.us');
+ *
+ * // Revoked messages of all chats
+ * const revoked = await WPP.chat.getRevokedMessages();
+ *
+ * for (const msg of revoked) {
+ *   console.log(msg.sender, msg.type, msg.body || msg.caption);
+ * }
+ * ```
+ *
+ * @category Message
+ */
+export async function getRevokedMessages(
+  chatId?: string | Wid
+): Promise<RevokedMessage[]> {
+  const chatIds = chatId ? getChatIds(assertWid(chatId)) : null;
+
+  const list = await revokedStorage.getAll();
+
+  return list
+    .filter((m) => !chatIds || chatIds.includes(m.chatId))
+    .sort((a, b) => b.revokedAt - a.revokedAt);
+}
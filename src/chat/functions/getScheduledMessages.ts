@@ -0,0 +1,43 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertWid } from '../../assert';
+import { Wid } from '../../whatsapp';
+import { ScheduledMessage, scheduledMessages } from './scheduleMessage';
+
+/**
+ * Get the messages scheduled with {@link scheduleMessage}, sorted by send time
+ *
+ * @example
+ * ```javascript
+ * // All scheduled messages
+ * const list = WPP.chat.getScheduledMessages();
+ *
+ * // Scheduled messages of a chat
+ * const list = WPP.chat.getScheduledMessages('[number]@c.us');
+ * ```
+ *
+ * @category Message
+ */
+export function getScheduledMessages(
+  chatId?: string | Wid
+): ScheduledMessage[] {
+  const id = chatId ? assertWid(chatId).toString() : null;
+
+  return Array.from(scheduledMessages.values())
+    .filter((m) => !id || m.chatId === id)
+    .sort((a, b) => a.sendAt - b.sendAt);
+}
@@ -0,0 +1,180 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { assertWid } from '../../assert';
+import { MsgModel, MsgStore, StarredMsgStore, Wid } from '../../whatsapp';
+import { msgFindQuery } from '../../whatsapp/functions';
+
+const debug = Debug('WA-JS:message');
+
+const QUERY_PAGE_SIZE = 1000;
+
+export interface GetStarredMessagesOptions {
+  /**
+   * Only starred messages of this chat
+   */
+  chatId?: string | Wid;
+  /**
+   * Only messages of these types, like `chat`, `image` or `document`
+   */
+  types?: string[];
+  /**
+   * Max number of messages
+   *
+   * @default 50
+   */
+  limit?: number;
+  /**
+   * The cursor returned by the previous page
+   */
+  cursor?: string;
+}
+
+export interface GetStarredMessagesResult {
+  messages: MsgModel[];
+  /**
+   * Cursor to get the next page, undefined when there are no more messages
+   */
+  cursor?: string;
+}
+
+/**
+ * Get the starred messages of all chats, or of a single chat,
+ * from the newest to the oldest
+ *
+ * @example
+ * ```javascript
+ * // First page
+ * let page = await WPP.chat.getStarredMessages({ limit: 20 });
+ *
+ * // Next pages
+ * while (page.cursor) {
+ *   page = await WPP.chat.getStarredMessages({ limit: 20, cursor: page.cursor });
+ * }
+ *
+ * // Only starred documents of a chat
+ * const result = await WPP.chat.getStarredMessages({
+ *   chatId: '[number]@c.us',
+ *   types: ['document'],
+ * });
+ * ```
+ *
+ * @category Message
+ */
+export async function getStarredMessages(
+  options: GetStarredMessagesOptions = {}
+): Promise<GetStarredMessagesResult> {
+  const chatId = options.chatId ? assertWid(options.chatId) : undefined;
+  const limit = options.limit || 50;
+
+  if (!StarredMsgStore.isSynced) {
+    await Promise.resolve(StarredMsgStore.sync()).catch((error) => {
+      debug('failed to sync starred messages', error);
+    });
+  }
+
+  const candidates: MsgModel[] = [...StarredMsgStore.getModelsArray()];
+
+  // The collection is loaded on demand, so the local database is also used,
+  // paging until all starred messages were found
+  const queried = new Set<string>();
+  let anchor: MsgModel | undefined;
+
+  try {
+    for (;;) {
+      const result = await msgFindQuery('star', {
+        remote: chatId,
+        count: QUERY_PAGE_SIZE,
+        ...(anchor && {
+          id: anchor.id.id,
+          fromMe: anchor.id.fromMe,
+          participant: anchor.id.participant,
+        }),
+      } as any);
+
+      const list = Array.isArray(result) ? result : result?.messages || [];
+      let added = 0;
+
+      for (const m of list) {
+        const msg =
+          m instanceof MsgModel ? m : MsgStore.get(m.id) || new MsgModel(m);
+        const id = msg.id?.toString();
+        if (!id || queried.has(id)) {
+          continue;
+        }
+
+        queried.add(id);
+        candidates.push(msg);
+        anchor = msg;
+        added++;
+      }
+
+      // Stop when the page is not full or the anchor was ignored
+      if (list.length < QUERY_PAGE_SIZE || !added) {
+        break;
+      }
+    }
+  } catch (error) {
+    debug('failed to query starred messages', error);
+  }
+
+  const messages = new Map<string, MsgModel>();
+
+  for (const msg of candidates) {
+    const id = msg.id?.toString();
+    if (
+      !id ||
+      messages.has(id) ||
+      !msg.star ||
+      (chatId && !chatId.equals(msg.id.remote)) ||
+      (options.types && !options.types.includes(msg.type!))
+    ) {
+      continue;
+    }
+    messages.set(id, msg);
+  }
+
+  const compare = (t: number, id: string, msg: MsgModel) =>
+    msg.t! - t || msg.id.toString().localeCompare(id);
+
+  const sorted = Array.from(messages.values()).sort((a, b) =>
+    compare(a.t!, a.id.toString(), b)
+  );
+
+  // The cursor has the time and the ID of the last message of the page,
+  // so it is still valid when that message is unstarred
+  let start = 0;
+  if (options.cursor) {
+    const separator = options.cursor.indexOf(':');
+    const t = Number(options.cursor.substring(0, separator));
+    const id = options.cursor.substring(separator + 1);
+    start = sorted.findIndex((msg) => compare(t, id, msg) < 0);
+    if (start < 0) {
+      start = sorted.length;
+    }
+  }
+
+  const page = sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    messages: page,
+    cursor: hasMore ? `${last.t}:${last.id.toString()}` : undefined,
+  };
+}
@@ -0,0 +1,81 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertGetChat } from '../../assert';
+import {
+  ChatModel,
+  ChatStore,
+  MsgKey,
+  MsgModel,
+  MsgStore,
+  UnreadMentionModel,
+  Wid,
+} from '../../whatsapp';
+
+export interface UnreadMention {
+  chatId: Wid;
+  msgId: string;
+  /**
+   * Timestamp of the mention in seconds
+   */
+  timestamp: number;
+  /**
+   * The message, only when it is loaded
+   */
+  msg?: MsgModel;
+}
+
+function getChatMentions(chat: ChatModel): UnreadMention[] {
+  const list = chat.unreadMentionsOfMe;
+  const models: UnreadMentionModel[] = Array.isArray(list)
+    ? list
+    : list?.getModelsArray?.() || [];
+
+  return models.map((mention) => {
+    const msgId = mention.id.toString();
+    return {
+      chatId: chat.id,
+      msgId,
+      timestamp: mention.timestamp,
+      msg: MsgStore.get(MsgKey.fromString(msgId)),
+    };
+  });
+}
+
+/**
+ * Get the unread messages that mention me, of a chat or of all chats,
+ * from the newest to the oldest
+ *
+ * @example
+ * ```javascript
+ * // All chats
+ * const mentions = await WPP.chat.getUnreadMentions();
+ *
+ * // Only a group
+ * const mentions = await WPP.chat.getUnreadMentions('[group-id]@g.us');
+ * ```
+ *
+ * @category Chat
+ */
+export async function getUnreadMentions(
+  chatId?: string | Wid
+): Promise<UnreadMention[]> {
+  const chats = chatId ? [assertGetChat(chatId)] : ChatStore.getModelsArray();
+
+  return chats
+    .flatMap(getChatMentions)
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -15,6 +15,7 @@
  */
 
 export { archive, unarchive } from './archive';
+export { cancelScheduledMessage } from './cancelScheduledMessage';
 export { canMarkPlayed } from './canMarkPlayed';
 export { canMute } from './canMute';
 export { canReply } from './canReply';
@@ -23,24 +24,65 @@ export { closeChat } from './closeChat';
 export { delete } from './delete';
 export { deleteMessage, DeleteMessageReturn } from './deleteMessage';
 export { downloadMedia } from './downloadMedia';
+export { cancelEvent, editEvent, EditEventOptions } from './editEvent';
 export { editMessage } from './editMessage';
+export {
+  exportChat,
+  ExportChatOptions,
+  ExportedChat,
+  ExportedMessage,
+} from './exportChat';
 export { find } from './find';
 export { forwardMessage, ForwardMessageOptions } from './forwardMessage';
 export { forwardMessages, ForwardMessagesOptions } from './forwardMessages';
 export { generateMessageID } from './generateMessageID';
 export { get } from './get';
 export { getActiveChat } from './getActiveChat';
+export {
+  getEditHistory,
+  MessageEditHistory,
+  MessageEditVersion,
+} from './getEditHistory';
+export {
+  EventResponse,
+  EventResponses,
+  EventResponseType,
+  getEventResponses,
+} from './getEventResponses';
 export { getLastSeen } from './getLastSeen';
 export { getMessageACK } from './getMessageACK';
 export { getMessageById } from './getMessageById';
+export {
+  getMessageInfo,
+  MessageInfo,
+  MessageInfoParticipant,
+} from './getMessageInfo';
 export { getMessages, GetMessagesOptions } from './getMessages';
 export { getNotes } from './getNotes';
 export { getPlatformFromMessage } from './getPlatformFromMessage';
+export {
+  getPollResults,
+  PollOptionResult,
+  PollResults,
+} from './getPollResults';
 export { getQuotedMsg } from './getQuotedMsg';
 export { getQuotedMsgKey } from './getQuotedMsgKey';
 export { getReactions } from './getReactions';
+export {
+  getRevokedMessages,
+  RevokedMessage,
+  RevokedMessageContent,
+} from './getRevokedMessages';
+export { getScheduledMessages } from './getScheduledMessages';
+export {
+  getStarredMessages,
+  GetStarredMessagesOptions,
+  GetStarredMessagesResult,
+} from './getStarredMessages';
 export { getUnreadChats } from './getUnreadChats';
+export { getUnreadMentions, UnreadMention } from './getUnreadMentions';
 export { getVotes } from './getVotes';
+export { iterateMessages, IterateMessagesOptions } from './iterateMessages';
 export { keepMessage } from './keepMessage';
 export { ChatListOptions, list } from './list';
 export { markIsComposing } from './markIsComposing';
@@ -56,6 +98,11 @@ export { openChatFromUnread } from './openChatFromUnread';
 export { pin, unpin } from './pin';
 export { pinMsg, unpinMsg } from './pinMsg';
 export { LinkPreviewOptions, prepareLinkPreview } from './prepareLinkPreview';
+export {
+  PreparedMedia,
+  prepareMedia,
+  PrepareMediaOptions,
+} from './prepareMedia';
 export {
   MessageButtonsOptions,
   prepareMessageButtons,
@@ -66,6 +113,25 @@ export {
   replyToButtonMessage,
 } from './replyToButtonMessage';
 export { requestPhoneNumber } from './requestPhoneNumber';
+export { rescheduleMessage } from './rescheduleMessage';
+export { respondToEvent } from './respondToEvent';
+export {
+  ScheduledMessage,
+  ScheduledMessageMissedPolicy,
+  scheduleMessage,
+  ScheduleMessageOptions,
+} from './scheduleMessage';
+export {
+  searchMessages,
+  SearchMessagesOptions,
+  SearchMessagesResult,
+} from './searchMessages';
+export {
+  AlbumMessageItem,
+  AlbumMessageOptions,
+  sendAlbumMessage,
+  SendAlbumMessageReturn,
+} from './sendAlbumMessage';
 export { sendCatalogMessage } from './sendCatalogMessage';
 export {
   OrderItems,
@@ -78,6 +144,7 @@ export {
 } from './sendCreatePollMessage';
 export { sendEventMessage } from './sendEventMessage';
 export {
+  AnyFileMessageOptions,
   AudioMessageOptions,
   AutoDetectMessageOptions,
   DocumentMessageOptions,
@@ -103,7 +170,11 @@ export {
   ScheduledCallMessageOptions,
   sendScheduledCallMessage,
 } from './sendScheduledCallMessage';
-export { sendTextMessage, TextMessageOptions } from './sendTextMessage';
+export {
+  sendTextMessage,
+  SplitTextMessageOptions,
+  TextMessageOptions,
+} from './sendTextMessage';
 export {
   sendVCardContactMessage,
   VCardContact,
@@ -112,4 +183,18 @@ export { setChatList } from './setChatList';
 export { setInputText } from './setInputText';
 export { setNotes } from './setNotes';
 export { starMessage, StarMessageReturn } from './starMessage';
+export {
+  LiveLocationController,
+  LiveLocationOptions,
+  LiveLocationPosition,
+  startLiveLocation,
+} from './startLiveLocation';
+export { AudioTranscodeOptions } from './transcodeAudio';
+export {
+  MediaTransformOptions,
+  MediaWatermarkOptions,
+  VideoTransformOptions,
+} from './transformMedia';
 export { unmute } from './unmute';
+export { votePoll } from './votePoll';
+export { waitForAck } from './waitForAck';
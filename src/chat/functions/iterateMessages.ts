@@ -0,0 +1,252 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { assertGetChat } from '../../assert';
+import { toUnixTime } from '../../util/toUnixTime';
+import { ChatModel, MsgKey, MsgModel, MsgStore, Wid } from '../../whatsapp';
+import {
+  loadEarlierMsgs,
+  msgFindQuery,
+  MsgFindQueryParams,
+} from '../../whatsapp/functions';
+
+const debug = Debug('WA-JS:message');
+
+export interface IterateMessagesOptions {
+  /**
+   * `before` iterates from the newest to the oldest message,
+   * `after` from the oldest to the newest
+   *
+   * @default 'before'
+   */
+  direction?: 'after' | 'before';
+  /**
+   * Only messages sent after this date (Date or unix timestamp in seconds)
+   */
+  since?: Date | number;
+  /**
+   * Only messages sent before this date (Date or unix timestamp in seconds)
+   */
+  until?: Date | number;
+  /**
+   * Only messages of these types, like `chat`, `image` or `document`
+   */
+  types?: string[];
+  /**
+   * Only messages sent (`true`) or received (`false`) by me
+   */
+  fromMe?: boolean;
+  /**
+   * Number of messages fetched from the local database for each page
+   *
+   * @default 50
+   */
+  batchSize?: number;
+  /**
+   * Request older messages from the phone when the local history ends
+   *
+   * @default false
+   */
+  loadFromPhone?: boolean;
+}
+
+function toMsgModel(m: any): MsgModel {
+  if (m instanceof MsgModel) {
+    return m;
+  }
+  return MsgStore.get(m) || new MsgModel(m);
+}
+
+/**
+ * Fetch a page of messages around an anchor, sorted in the iteration order
+ */
+async function fetchPage(
+  chat: ChatModel,
+  anchor: MsgKey | null,
+  direction: 'after' | 'before',
+  count: number
+): Promise<MsgModel[]> {
+  const params: MsgFindQueryParams = anchor
+    ? (MsgKey.fromString(anchor.toString()) as any)
+    : {
+        remote: chat.id,
+      };
+
+  params.count = count;
+  params.direction = direction;
+
+  const result = await msgFindQuery(direction, params);
+  const msgs: MsgModel[] = (Array.isArray(result) ? result : []).map(
+    toMsgModel
+  );
+
+  return msgs.sort((a, b) =>
+    direction === 'before' ? b.t! - a.t! : a.t! - b.t!
+  );
+}
+
+/**
+ * Walk backward through the local history to find the oldest message,
+ * stopping at the first message older than `since`
+ */
+async function findOldestKey(
+  chat: ChatModel,
+  batchSize: number,
+  since?: number
+): Promise<MsgKey | null> {
+  let anchor = chat.lastReceivedKey || null;
+
+  for (;;) {
+    const page = await fetchPage(chat, anchor, 'before', batchSize);
+    if (!page.length) {
+      return anchor;
+    }
+
+    const last = page[page.length - 1];
+    if (since !== undefined && last.t! < since) {
+      const older = page.filter((m) => m.t! < since);
+      return older[0].id;
+    }
+    anchor = last.id;
+  }
+}
+
+/**
+ * Iterate over all messages of a chat, paging through the local database.
+ *
+ * The messages are fetched on demand, so it is possible to traverse
+ * the full history of big chats without loading everything in memory.
+ *
+ * @example
+ * ```javascript
+ * // From the newest to the oldest message
+ * for await (const msg of WPP.chat.iterateMessages('[number]@c.us')) {
+ *   console.log(msg.id.toString(), msg.body);
+ * }
+ *
+ * // Images received in 2025, from the oldest to the newest
+ * const iterator = WPP.chat.iterateMessages('[number]@c.us', {
+ *   direction: 'after',
+ *   since: new Date('2025-01-01'),
+ *   until: new Date('2026-01-01'),
+ *   types: ['image'],
+ *   fromMe: false,
+ * });
+ * for await (const msg of iterator) {
+ *   // Your code
+ * }
+ *
+ * // Request older messages from the phone when the local history ends
+ * for await (const msg of WPP.chat.iterateMessages('[number]@c.us', {
+ *   loadFromPhone: true,
+ * })) {
+ *   // Your code
+ * }
+ * ```
+ *
+ * @category Message
+ */
+export async function* iterateMessages(
+  chatId: string | Wid,
+  options: IterateMessagesOptions = {}
+): AsyncGenerator<MsgModel, void, undefined> {
+  const chat = assertGetChat(chatId);
+
+  const direction = options.direction === 'after' ? 'after' : 'before';
+  const batchSize = Math.max(options.batchSize || 50, 1);
+  const since = toUnixTime(options.since);
+  const until = toUnixTime(options.until);
+
+  const seen = new Set<string>();
+
+  const accept = (msg: MsgModel) => {
+    if (options.types && !options.types.includes(msg.type!)) {
+      return false;
+    }
+    if (
+      typeof options.fromMe === 'boolean' &&
+      msg.id.fromMe !== options.fromMe
+    ) {
+      return false;
+    }
+    if (since !== undefined && msg.t! < since) {
+      return false;
+    }
+    if (until !== undefined && msg.t! > until) {
+      return false;
+    }
+    return true;
+  };
+
+  let anchor: MsgKey | null;
+
+  if (direction === 'after') {
+    anchor = await findOldestKey(chat, batchSize, since);
+  } else {
+    anchor = chat.lastReceivedKey || null;
+  }
+
+  // The query doesn't include the anchor message
+  if (anchor) {
+    const msg = MsgStore.get(anchor);
+    if (msg) {
+      seen.add(msg.id.toString());
+      if (accept(msg)) {
+        yield msg;
+      }
+    }
+  }
+
+  for (;;) {
+    let page = await fetchPage(chat, anchor, direction, batchSize);
+
+    if (!page.length && direction === 'before' && options.loadFromPhone) {
+      if (chat.msgs.msgLoadState?.noEarlierMsgs) {
+        break;
+      }
+
+      debug(`loading earlier messages from phone for ${chat.id}`);
+      await loadEarlierMsgs(chat).catch(() => null);
+      page = await fetchPage(chat, anchor, direction, batchSize);
+    }
+
+    page = page.filter((m) => !seen.has(m.id.toString()));
+
+    if (!page.length) {
+      break;
+    }
+
+    for (const msg of page) {
+      seen.add(msg.id.toString());
+
+      // Reached the limit of the range
+      if (direction === 'before' && since !== undefined && msg.t! < since) {
+        return;
+      }
+      if (direction === 'after' && until !== undefined && msg.t! > until) {
+        return;
+      }
+
+      if (accept(msg)) {
+        yield msg;
+      }
+    }
+
+    anchor = page[page.length - 1].id;
+  }
+}
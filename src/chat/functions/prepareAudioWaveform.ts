@@ -21,14 +21,16 @@ import type { AudioMessageOptions } from './sendFileMessage';
 const debug = Debug('WA-JS:chat:sendFileMessage');
 
 /**
- * Prepare waveform form message audio file
+ * Prepare waveform form message audio file,
+ * the `audioBuffer` is used when the audio was already decoded
  *
  * @category Message
  * @internal
  */
 export async function prepareAudioWaveform(
   options: AudioMessageOptions,
-  file: File
+  file: File,
+  audioBuffer?: AudioBuffer
 ): Promise<
   | undefined
   | {
@@ -44,9 +46,11 @@ export async function prepareAudioWaveform(
    * @see https://css-tricks.com/making-an-audio-waveform-visualizer-with-vanilla-javascript/
    */
   try {
-    const audioData = await file.arrayBuffer();
-    const audioContext = new AudioContext();
-    const audioBuffer = await audioContext.decodeAudioData(audioData);
+    if (!audioBuffer) {
+      const audioData = await file.arrayBuffer();
+      const audioContext = new AudioContext();
+      audioBuffer = await audioContext.decodeAudioData(audioData);
+    }
 
     const rawData = audioBuffer.getChannelData(0); // We only need to work with one channel of data
     const samples = 64; // Number of samples we want to have in our final data set
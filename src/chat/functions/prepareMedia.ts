@@ -0,0 +1,310 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { WPPError } from '../../util';
+import { MediaDataModel, Wid } from '../../whatsapp';
+import { ACK } from '../../whatsapp/enums';
+import { getOrCreateMediaObject, uploadMedia } from '../../whatsapp/functions';
+import { defaultSendMessageOptions, RawMessage, SendMessageReturn } from '..';
+import {
+  MediaTransferOptions,
+  trackMediaTransfer,
+} from '../util/mediaTransfer';
+import { sendRawMessage } from '.';
+import { AnyFileMessageOptions, prepareMediaFile } from './sendFileMessage';
+
+const debug = Debug('WA-JS:message');
+
+export type PrepareMediaOptions = AnyFileMessageOptions & {
+  /**
+   * Time in seconds to reuse the uploaded file,
+   * after that the file is uploaded again in the next send
+   *
+   * @default 86400
+   */
+  ttl?: number;
+};
+
+export interface PreparedMedia {
+  /**
+   * Message type of the media, like `image`, `video`, `ptt` or `document`
+   */
+  type: string;
+  mimetype: string;
+  filename: string;
+  size: number;
+  filehash: string;
+  encFilehash: string;
+  mediaKey: string;
+  mediaKeyTimestamp: number;
+  directPath: string;
+  deprecatedMms3Url?: string;
+  /**
+   * Base64 JPEG thumbnail of images and videos
+   */
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  isGif?: boolean;
+  /**
+   * Waveform of voice notes (`ptt`)
+   */
+  waveform?: Uint8Array;
+  /**
+   * Timestamp in milliseconds of the last upload
+   */
+  uploadedAt: number;
+  /**
+   * Timestamp in milliseconds when the file must be uploaded again,
+   * based on the media key timestamp and the `ttl` option
+   */
+  expiresAt: number;
+}
+
+interface PreparedMediaState {
+  mediaData: MediaDataModel;
+  ttl: number;
+}
+
+const preparedMediaState = new WeakMap<PreparedMedia, PreparedMediaState>();
+
+/**
+ * Check if a value is a handle created by {@link prepareMedia},
+ * only the same object returned by it is recognized,
+ * so a stored or copied handle is not a prepared media anymore
+ *
+ * @category Message
+ * @internal
+ */
+export function isPreparedMedia(value: any): value is PreparedMedia {
+  return !!value && typeof value === 'object' && preparedMediaState.has(value);
+}
+
+function getThumbnail(mediaData: MediaDataModel): string | undefined {
+  const preview = mediaData.preview;
+  if (!preview) {
+    return;
+  }
+  if (typeof preview === 'string') {
+    return preview.replace(/^data:[^,]*,/, '');
+  }
+  return preview.getBase64?.();
+}
+
+async function uploadPreparedMedia(
+  media: PreparedMedia,
+  options: MediaTransferOptions = {}
+) {
+  const state = preparedMediaState.get(media)!;
+  const mediaData = state.mediaData;
+
+  debug(`uploading prepared media ${media.filehash}`);
+
+  const untrack = trackMediaTransfer({
+    type: 'upload',
+    key: mediaData.filehash,
+    onProgress: options.onProgress,
+    signal: options.signal,
+  });
+
+  const result = await uploadMedia({
+    mimetype: mediaData.mimetype,
+    mediaObject: getOrCreateMediaObject(mediaData.filehash),
+    mediaType: mediaData.type,
+    forwardedFromWeb: false,
+    isViewOnce: false,
+    signal: options.signal,
+  })
+    .catch((error) => {
+      if (options.signal?.aborted) {
+        throw new WPPError(
+          'media_upload_aborted',
+          `The upload of the media ${media.filename} was aborted`,
+          {
+            filehash: media.filehash,
+          }
+        );
+      }
+      throw error;
+    })
+    .finally(untrack);
+
+  const mediaEntry = result?.mediaEntry;
+  if (!mediaEntry?.directPath) {
+    throw new WPPError(
+      'media_upload_failed',
+      `Failed to upload the media ${media.filename}`,
+      {
+        filehash: media.filehash,
+      }
+    );
+  }
+
+  const now = Date.now();
+
+  // WhatsApp can reuse a previous upload of the same file
+  const uploadedAt = mediaEntry.mediaKeyTimestamp
+    ? Math.min(mediaEntry.mediaKeyTimestamp * 1000, now)
+    : now;
+
+  Object.assign(media, {
+    mediaKey: mediaEntry.mediaKey,
+    mediaKeyTimestamp: mediaEntry.mediaKeyTimestamp,
+    directPath: mediaEntry.directPath,
+    deprecatedMms3Url: mediaEntry.deprecatedMms3Url,
+    encFilehash: mediaEntry.encFilehash,
+    uploadedAt,
+    expiresAt: uploadedAt + state.ttl * 1000,
+  });
+}
+
+/**
+ * Process and upload a file once, to send it to many chats.
+ *
+ * The result can be used in {@link sendFileMessage} instead of the content,
+ * the uploaded file is reused until the `ttl` expires,
+ * then it is uploaded again in the next send.
+ *
+ * The result is only valid in the current page, it can't be stored
+ * or used in {@link queue.enqueue} and {@link scheduleMessage}.
+ *
+ * @example
+ * ```javascript
+ * const media = await WPP.chat.prepareMedia(
+ *   'data:image/jpeg;base64,<a long base64 file...>',
+ *   {
+ *     type: 'image',
+ *     ttl: 3600,
+ *   }
+ * );
+ *
+ * for (const chatId of chatIds) {
+ *   await WPP.chat.sendFileMessage(chatId, media, {
+ *     type: 'image',
+ *     caption: 'Our new catalog',
+ *   });
+ * }
+ * ```
+ * @category Message
+ */
+export async function prepareMedia(
+  content: string | Blob | File,
+  options: PrepareMediaOptions
+): Promise<PreparedMedia> {
+  options = {
+    ...{
+      type: 'auto-detect',
+      waveform: true,
+    },
+    ...options,
+  };
+
+  const { file, mediaPrep, waveform } = await prepareMediaFile(
+    content,
+    options
+  );
+  const mediaData = await mediaPrep.waitForPrep();
+
+  const media: PreparedMedia = {
+    type: mediaData.type,
+    mimetype: mediaData.mimetype,
+    filename: file.name,
+    size: mediaData.size,
+    filehash: mediaData.filehash,
+    encFilehash: '',
+    mediaKey: '',
+    mediaKeyTimestamp: 0,
+    directPath: '',
+    thumbnail: getThumbnail(mediaData),
+    width: mediaData.fullWidth,
+    height: mediaData.fullHeight,
+    duration: mediaData.duration,
+    isGif: mediaData.isGif,
+    ...(mediaData.type === 'ptt' && waveform && { waveform }),
+    uploadedAt: 0,
+    expiresAt: 0,
+  };
+
+  preparedMediaState.set(media, {
+    mediaData,
+    ttl: options.ttl ?? 86400,
+  });
+
+  await uploadPreparedMedia(media, options);
+
+  return media;
+}
+
+/**
+ * Send a media prepared by {@link prepareMedia},
+ * uploading the file again when it expired or the send failed
+ *
+ * @category Message
+ * @internal
+ */
+export async function sendPreparedMedia(
+  chatId: string | Wid,
+  media: PreparedMedia,
+  options: AnyFileMessageOptions
+): Promise<SendMessageReturn> {
+  options = {
+    ...defaultSendMessageOptions,
+    ...options,
+  };
+
+  if (Date.now() >= media.expiresAt) {
+    await uploadPreparedMedia(media, options);
+  }
+
+  const send = () => {
+    const rawMessage: RawMessage = {
+      type: media.type,
+      mimetype: media.mimetype,
+      filename: media.filename,
+      size: media.size,
+      filehash: media.filehash,
+      encFilehash: media.encFilehash,
+      mediaKey: media.mediaKey,
+      mediaKeyTimestamp: media.mediaKeyTimestamp,
+      directPath: media.directPath,
+      deprecatedMms3Url: media.deprecatedMms3Url,
+      width: media.width,
+      height: media.height,
+      duration: media.duration,
+      isGif: media.isGif,
+      waveform: media.waveform,
+      body: media.thumbnail,
+      caption: options.caption,
+      footer: options.footer,
+      isViewOnce: 'isViewOnce' in options ? options.isViewOnce : undefined,
+    };
+
+    return sendRawMessage(chatId, rawMessage, options);
+  };
+
+  const result = await send();
+
+  if (result.ack === ACK.FAILED) {
+    debug(`failed to send prepared media ${media.filehash}, uploading again`);
+    await uploadPreparedMedia(media, options);
+    return await send();
+  }
+
+  return result;
+}
@@ -33,7 +33,7 @@ import {
   unixTime,
 } from '../../whatsapp/functions';
 import { defaultSendMessageOptions, RawMessage, SendMessageOptions } from '..';
-import { rehydrateMessage } from '../util';
+import { rehydrateMessage, resolveNameMentions } from '../util';
 import {
   generateMessageID,
   getMessageById,
@@ -151,10 +151,28 @@ export async function prepareRawMessage<T extends RawMessage>(
     chat.id.isGroup() &&
     (!options.mentionedList || !options.mentionedList.length)
   ) {
-    const text = message.type === 'chat' ? message.body : message.caption;
+    const isText = message.type === 'chat';
+    let text = isText ? message.body : message.caption;
 
     options.mentionedList = options.mentionedList || [];
 
+    if (text) {
+      const resolved = await resolveNameMentions(
+        chat,
+        text,
+        options.ambiguousMention
+      );
+
+      text = resolved.text;
+      if (isText) {
+        message.body = text;
+      } else {
+        message.caption = text;
+      }
+
+      options.mentionedList.push(...resolved.everyone);
+    }
+
     const ids = text?.match(/(?<=@)(\d+)\b/g) || [];
 
     if (ids.length > 0) {
@@ -181,9 +199,13 @@ export async function prepareRawMessage<T extends RawMessage>(
    * Add the metadata for  mentioned list
    */
   if (options.mentionedList) {
-    const mentionedList = options.mentionedList.map((m) =>
-      m instanceof Wid ? m : assertWid(m)
-    );
+    const mentionedList: Wid[] = [];
+    for (const m of options.mentionedList) {
+      const wid = m instanceof Wid ? m : assertWid(m);
+      if (!mentionedList.some((w) => w.equals(wid))) {
+        mentionedList.push(wid);
+      }
+    }
 
     for (const m of mentionedList) {
       if (!m.isUser()) {
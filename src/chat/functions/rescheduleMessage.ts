@@ -0,0 +1,56 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import {
+  armJob,
+  parseSendAt,
+  ScheduledMessage,
+  scheduledMessages,
+  scheduledStorage,
+} from './scheduleMessage';
+
+/**
+ * Change the send time of a message scheduled with {@link scheduleMessage}
+ *
+ * @example
+ * ```javascript
+ * await WPP.chat.rescheduleMessage(scheduled.id, new Date('2030-01-02T10:00:00'));
+ * ```
+ *
+ * @category Message
+ */
+export async function rescheduleMessage(
+  id: string,
+  sendAt: Date | number
+): Promise<ScheduledMessage> {
+  const job = scheduledMessages.get(id);
+
+  if (!job) {
+    throw new WPPError(
+      'scheduled_message_not_found',
+      `Scheduled message ${id} not found`,
+      { id }
+    );
+  }
+
+  job.sendAt = parseSendAt(sendAt);
+  await scheduledStorage.put(job.id, job);
+
+  armJob(job);
+
+  return job;
+}
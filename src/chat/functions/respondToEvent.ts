@@ -0,0 +1,66 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { MsgKey } from '../../whatsapp';
+import { sendEventResponseMsg } from '../../whatsapp/functions';
+import {
+  EventResponseType,
+  eventResponseValues,
+  getEventMessage,
+} from './getEventResponses';
+
+/**
+ * Respond (RSVP) to an event message
+ *
+ * @example
+ * ```javascript
+ * await WPP.chat.respondToEvent('false_[number]@g.us_ABCDEF', 'going');
+ *
+ * // Change the response
+ * await WPP.chat.respondToEvent('false_[number]@g.us_ABCDEF', 'maybe');
+ * ```
+ * @category Chat
+ */
+export async function respondToEvent(
+  id: string | MsgKey,
+  response: EventResponseType
+): Promise<void> {
+  const msg = await getEventMessage(id);
+
+  const value = eventResponseValues[response];
+  if (!value) {
+    throw new WPPError(
+      'invalid_event_response',
+      `Invalid event response: ${response}. Use going, not_going or maybe`,
+      {
+        response,
+      }
+    );
+  }
+
+  if (msg.isEventCanceled) {
+    throw new WPPError(
+      'event_canceled',
+      `Event ${msg.id.toString()} was canceled`,
+      {
+        id: msg.id.toString(),
+      }
+    );
+  }
+
+  await sendEventResponseMsg(value, msg);
+}
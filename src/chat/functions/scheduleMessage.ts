@@ -0,0 +1,276 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { assertWid } from '../../assert';
+import { internalEv } from '../../eventEmitter';
+import { WPPError } from '../../util';
+import {
+  createIndexedDBStore,
+  toStorableValue,
+} from '../../util/indexedDBStore';
+import { Wid } from '../../whatsapp';
+import {
+  AnyFileMessageOptions,
+  sendFileMessage,
+  sendTextMessage,
+  TextMessageOptions,
+} from '.';
+import { isPreparedMedia } from './prepareMedia';
+
+const debug = Debug('WA-JS:scheduled');
+
+/**
+ * Max delay supported by setTimeout
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+export type ScheduledMessageMissedPolicy = 'send' | 'skip' | 'emit';
+
+export type ScheduleMessageOptions = (
+  TextMessageOptions | AnyFileMessageOptions
+) & {
+  /**
+   * When to send the message, as a Date or a timestamp in milliseconds
+   */
+  sendAt: Date | number;
+  /**
+   * What to do when the page was closed at the time to send the message:
+   * `send` sends it late, `skip` discards it and `emit` discards it
+   * and triggers the `chat.scheduled_message_missed` event
+   *
+   * @default 'send'
+   */
+  missedPolicy?: ScheduledMessageMissedPolicy;
+};
+
+export interface ScheduledMessage {
+  id: string;
+  chatId: string;
+  content: string | Blob;
+  /**
+   * Options of {@link sendFileMessage} when the content is a Blob or
+   * the `type` option is present, otherwise of {@link sendTextMessage}
+   */
+  options: TextMessageOptions | AnyFileMessageOptions;
+  /**
+   * Timestamp (in ms) to send the message
+   */
+  sendAt: number;
+  missedPolicy: ScheduledMessageMissedPolicy;
+  createdAt: number;
+}
+
+export const scheduledStorage =
+  createIndexedDBStore<ScheduledMessage>('scheduled-messages');
+
+export const scheduledMessages = new Map<string, ScheduledMessage>();
+
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+let isLoaded = false;
+
+// Started again after a reconnection to retry the failed messages
+internalEv.on('conn.main_ready', loadScheduledMessages);
+
+async function loadScheduledMessages() {
+  try {
+    const stored = await scheduledStorage.getAll();
+    const now = Date.now();
+
+    for (const job of stored) {
+      if (scheduledMessages.has(job.id)) {
+        continue;
+      }
+      scheduledMessages.set(job.id, job);
+
+      if (job.sendAt > now) {
+        continue;
+      }
+
+      debug(`scheduled message ${job.id} was missed (${job.missedPolicy})`);
+      if (job.missedPolicy !== 'send') {
+        await cancelJob(job.id);
+      }
+      if (job.missedPolicy === 'emit') {
+        internalEv.emit('chat.scheduled_message_missed', job);
+      }
+    }
+  } catch (error) {
+    debug('failed to load scheduled messages', error);
+  }
+
+  isLoaded = true;
+
+  for (const job of scheduledMessages.values()) {
+    armJob(job);
+  }
+}
+
+export function armJob(job: ScheduledMessage): void {
+  if (!isLoaded) {
+    return;
+  }
+
+  clearTimeout(timers.get(job.id));
+
+  const delay = Math.max(job.sendAt - Date.now(), 0);
+
+  timers.set(
+    job.id,
+    setTimeout(
+      () => {
+        if (job.sendAt > Date.now()) {
+          // Long delay, wait again
+          armJob(job);
+        } else {
+          fireJob(job);
+        }
+      },
+      Math.min(delay, MAX_TIMEOUT)
+    )
+  );
+}
+
+export async function cancelJob(id: string): Promise<ScheduledMessage | null> {
+  const job = scheduledMessages.get(id) || null;
+
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  scheduledMessages.delete(id);
+  await scheduledStorage.delete(id).catch(() => null);
+
+  return job;
+}
+
+async function fireJob(job: ScheduledMessage): Promise<void> {
+  timers.delete(job.id);
+
+  debug(`sending scheduled message ${job.id} to ${job.chatId}`);
+  try {
+    const { content, options } = job;
+    if (typeof content === 'string' && !isFileMessageOptions(options)) {
+      await sendTextMessage(job.chatId, content, options);
+    } else {
+      // Files without a type are detected when sent
+      await sendFileMessage(job.chatId, content, {
+        type: 'auto-detect',
+        ...options,
+      });
+    }
+  } catch (error) {
+    // Kept in the storage to be sent again in the next start
+    debug(`failed to send scheduled message ${job.id}`, error);
+    internalEv.emit('chat.scheduled_message_failed', {
+      scheduled: job,
+      error,
+    });
+    return;
+  }
+
+  await cancelJob(job.id);
+}
+
+function isFileMessageOptions(
+  options: TextMessageOptions | AnyFileMessageOptions
+): options is AnyFileMessageOptions {
+  return 'type' in options;
+}
+
+export function parseSendAt(sendAt: Date | number): number {
+  const time = sendAt instanceof Date ? sendAt.getTime() : sendAt;
+
+  if (typeof time !== 'number' || isNaN(time)) {
+    throw new WPPError('invalid_send_at', 'The sendAt option is invalid', {
+      sendAt,
+    });
+  }
+
+  return time;
+}
+
+/**
+ * Schedule a message to be sent in the future.
+ *
+ * The scheduled messages are stored in the browser (IndexedDB),
+ * so they are kept after a page reload and sent when the interface is ready.
+ * Text messages are sent with {@link sendTextMessage},
+ * when the content is a Blob or the `type` option is present,
+ * {@link sendFileMessage} is used.
+ *
+ * @example
+ * ```javascript
+ * // Send a text message in one hour
+ * const scheduled = await WPP.chat.scheduleMessage('[number]@c.us', 'Hello', {
+ *   sendAt: Date.now() + 60 * 60 * 1000,
+ * });
+ *
+ * // Send an image in a specific date
+ * await WPP.chat.scheduleMessage(
+ *   '[number]@c.us',
+ *   'data:image/jpeg;base64,<a long base64 file...>',
+ *   {
+ *     type: 'image',
+ *     caption: 'My image',
+ *     sendAt: new Date('2030-01-01T10:00:00'),
+ *   }
+ * );
+ *
+ * // Do not send the message if the page was closed at the scheduled time
+ * await WPP.chat.scheduleMessage('[number]@c.us', 'Good morning', {
+ *   sendAt: new Date('2030-01-01T08:00:00'),
+ *   missedPolicy: 'emit',
+ * });
+ *
+ * WPP.on('chat.scheduled_message_missed', (scheduled) => {
+ *   // Your code
+ * });
+ * ```
+ *
+ * @category Message
+ */
+export async function scheduleMessage(
+  chatId: string | Wid,
+  content: string | Blob,
+  options: ScheduleMessageOptions
+): Promise<ScheduledMessage> {
+  const { sendAt, missedPolicy, ...sendOptions } = options;
+
+  if (isPreparedMedia(content)) {
+    throw new WPPError(
+      'prepared_media_not_storable',
+      'Media prepared by prepareMedia can not be scheduled'
+    );
+  }
+
+  const job: ScheduledMessage = {
+    id: crypto.randomUUID(),
+    chatId: assertWid(chatId).toString(),
+    content,
+    options: toStorableValue(sendOptions),
+    sendAt: parseSendAt(sendAt),
+    missedPolicy: missedPolicy || 'send',
+    createdAt: Date.now(),
+  };
+
+  scheduledMessages.set(job.id, job);
+  await scheduledStorage.put(job.id, job);
+
+  armJob(job);
+
+  return job;
+}
@@ -0,0 +1,315 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { assertWid } from '../../assert';
+import { WPPError } from '../../util';
+import { fold } from '../../util/fold';
+import { toUnixTime } from '../../util/toUnixTime';
+import { ChatStore, MsgModel, MsgStore, Wid } from '../../whatsapp';
+import { getSearchContext, msgFindQuery } from '../../whatsapp/functions';
+
+const debug = Debug('WA-JS:message');
+
+const SNIPPET_CONTEXT = 40;
+
+export interface SearchMessagesOptions {
+  /**
+   * Only search in these chats
+   */
+  chatIds?: (string | Wid)[];
+  /**
+   * Only messages sent by this contact
+   */
+  sender?: string | Wid;
+  /**
+   * Only messages of these types, like `chat`, `image` or `document`
+   */
+  types?: string[];
+  /**
+   * Only messages sent after this date (Date or unix timestamp in seconds)
+   */
+  after?: Date | number;
+  /**
+   * Only messages sent before this date (Date or unix timestamp in seconds)
+   */
+  before?: Date | number;
+  /**
+   * Only messages with (`true`) or without (`false`) media
+   */
+  hasMedia?: boolean;
+  /**
+   * Max number of results
+   *
+   * @default 50
+   */
+  limit?: number;
+}
+
+export interface SearchMessagesResult {
+  msg: MsgModel;
+  chatId: Wid;
+  /**
+   * Message field where the query was found
+   */
+  field: 'body' | 'caption' | 'filename';
+  /**
+   * Part of the text around the first match
+   */
+  snippet: string;
+  /**
+   * Position of each match in the message field
+   */
+  matches: { start: number; end: number }[];
+  score: number;
+}
+
+function findAll(text: string, term: string) {
+  const matches: { start: number; end: number }[] = [];
+  let index = text.indexOf(term);
+  while (index >= 0) {
+    matches.push({ start: index, end: index + term.length });
+    index = text.indexOf(term, index + term.length);
+  }
+  return matches;
+}
+
+function matchMessage(
+  msg: MsgModel,
+  phrase: string,
+  terms: string[]
+): Omit<SearchMessagesResult, 'msg' | 'chatId'> | null {
+  const fields = {
+    body: msg.type === 'chat' ? msg.body : undefined,
+    caption: msg.caption,
+    filename: msg.filename,
+  };
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (typeof value !== 'string' || !value) {
+      continue;
+    }
+
+    const text = fold(value);
+    const termMatches = terms.map((term) => findAll(text, term));
+
+    // All terms must be present
+    if (termMatches.some((m) => !m.length)) {
+      continue;
+    }
+
+    const matches = termMatches
+      .flat()
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    let score = matches.length;
+    if (terms.length > 1 && text.includes(phrase)) {
+      score += 10;
+    }
+
+    const start = Math.max(matches[0].start - SNIPPET_CONTEXT, 0);
+    const end = Math.min(matches[0].end + SNIPPET_CONTEXT, value.length);
+    const snippet =
+      (start > 0 ? '…' : '') +
+      value.substring(start, end) +
+      (end < value.length ? '…' : '');
+
+    return {
+      field: field as SearchMessagesResult['field'],
+      snippet,
+      matches,
+      score,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Query the local database, the result can have messages
+ * that were not loaded in the MsgStore
+ */
+async function queryDatabase(
+  query: string,
+  count: number,
+  chatIds?: Wid[]
+): Promise<MsgModel[]> {
+  const remotes: (Wid | undefined)[] = chatIds?.length ? chatIds : [undefined];
+  const msgs: MsgModel[] = [];
+
+  for (const remote of remotes) {
+    try {
+      const result = await msgFindQuery('search', {
+        query,
+        count,
+        remote,
+      } as any);
+
+      const list = Array.isArray(result) ? result : result?.messages || [];
+
+      for (const m of list) {
+        msgs.push(
+          m instanceof MsgModel ? m : MsgStore.get(m) || new MsgModel(m)
+        );
+      }
+    } catch (error) {
+      debug('failed to search messages in database', error);
+    }
+  }
+
+  return msgs;
+}
+
+/**
+ * Load a message found only in the local database with the messages
+ * around it, so it can be used like the messages of the MsgStore
+ */
+async function loadSearchContext(msg: MsgModel): Promise<MsgModel> {
+  const loaded = MsgStore.get(msg.id);
+  if (loaded) {
+    return loaded;
+  }
+
+  const chat = ChatStore.get(msg.id.remote);
+  if (!chat) {
+    return msg;
+  }
+
+  try {
+    const context = getSearchContext(chat, msg.id);
+    await context.collection.loadAroundPromise;
+
+    return chat.msgs.get(msg.id) || context.collection.get(msg.id) || msg;
+  } catch (error) {
+    debug(`failed to load the context of message ${msg.id}`, error);
+    return msg;
+  }
+}
+
+/**
+ * Search messages by text in all chats.
+ *
+ * All words of the query must be present in the message text, caption or
+ * file name, ignoring case and accents. The results are sorted by relevance
+ * and then by the most recent message.
+ *
+ * The search uses the WhatsApp local database and the messages
+ * already loaded in memory, the messages around each result
+ * are loaded in the chat.
+ *
+ * @example
+ * ```javascript
+ * // Simple search
+ * const results = await WPP.chat.searchMessages('invoice');
+ *
+ * for (const result of results) {
+ *   console.log(result.chatId.toString(), result.snippet, result.matches);
+ * }
+ *
+ * // Search in specific chats, by sender and date
+ * const results = await WPP.chat.searchMessages('invoice 12345', {
+ *   chatIds: ['[number]@c.us'],
+ *   sender: '[number]@c.us',
+ *   after: new Date('2026-01-01'),
+ *   limit: 10,
+ * });
+ *
+ * // Only documents
+ * const results = await WPP.chat.searchMessages('contract', {
+ *   types: ['document'],
+ *   hasMedia: true,
+ * });
+ * ```
+ *
+ * @category Message
+ */
+export async function searchMessages(
+  query: string,
+  options: SearchMessagesOptions = {}
+): Promise<SearchMessagesResult[]> {
+  const phrase = fold(query || '').trim();
+
+  if (!phrase) {
+    throw new WPPError('invalid_search_query', 'Search query cannot be empty');
+  }
+
+  const terms = Array.from(new Set(phrase.split(/\s+/)));
+  const limit = options.limit || 50;
+  const chatIds = options.chatIds?.map((id) => assertWid(id));
+  const sender = options.sender ? assertWid(options.sender) : undefined;
+  const after = toUnixTime(options.after);
+  const before = toUnixTime(options.before);
+
+  const accept = (msg: MsgModel) => {
+    const chatId = msg.id.remote;
+    if (chatIds && !chatIds.some((id) => id.equals(chatId))) {
+      return false;
+    }
+    if (sender && !sender.equals(msg.author || msg.from)) {
+      return false;
+    }
+    if (options.types && !options.types.includes(msg.type!)) {
+      return false;
+    }
+    if (
+      typeof options.hasMedia === 'boolean' &&
+      !!msg.isMedia !== options.hasMedia
+    ) {
+      return false;
+    }
+    if (after !== undefined && msg.t! < after) {
+      return false;
+    }
+    if (before !== undefined && msg.t! > before) {
+      return false;
+    }
+    return true;
+  };
+
+  const candidates = [
+    ...MsgStore.getModelsArray(),
+    ...(await queryDatabase(query.trim(), limit * 2, chatIds)),
+  ];
+
+  const results = new Map<string, SearchMessagesResult>();
+
+  for (const msg of candidates) {
+    const id = msg.id?.toString();
+    if (!id || results.has(id) || !accept(msg)) {
+      continue;
+    }
+
+    const match = matchMessage(msg, phrase, terms);
+    if (match) {
+      results.set(id, {
+        msg,
+        chatId: msg.id.remote,
+        ...match,
+      });
+    }
+  }
+
+  const hits = Array.from(results.values())
+    .sort((a, b) => b.score - a.score || b.msg.t! - a.msg.t!)
+    .slice(0, limit);
+
+  for (const hit of hits) {
+    hit.msg = await loadSearchContext(hit.msg);
+  }
+
+  return hits;
+}
@@ -0,0 +1,296 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { assertFindChat } from '../../assert';
+import { convertToFile, WPPError } from '../../util';
+import * as webpack from '../../webpack';
+import { MsgKey, Wid } from '../../whatsapp';
+import { wrapModuleFunction } from '../../whatsapp/exportModule';
+import {
+  createMsgProtobuf,
+  mediaTypeFromProtobuf,
+  typeAttributeFromProtobuf,
+} from '../../whatsapp/functions';
+import {
+  defaultSendMessageOptions,
+  RawMessage,
+  SendMessageOptions,
+  SendMessageReturn,
+} from '..';
+import {
+  generateMessageID,
+  prepareMedia,
+  sendFileMessage,
+  sendRawMessage,
+} from '.';
+
+const debug = Debug('WA-JS:message');
+
+export interface AlbumMessageItem {
+  content: string | Blob | File;
+  /**
+   * Type of the media, detected from the mimetype when not defined
+   */
+  type?: 'image' | 'video';
+  /**
+   * Caption of this item, the first item uses the album caption by default
+   */
+  caption?: string;
+  mimetype?: string;
+  filename?: string;
+}
+
+export interface AlbumMessageOptions extends SendMessageOptions {
+  /**
+   * Caption of the album, sent in the first item
+   */
+  caption?: string;
+}
+
+export interface SendAlbumMessageReturn {
+  /**
+   * The album message, parent of all items
+   */
+  album: SendMessageReturn;
+  items: SendMessageReturn[];
+}
+
+/**
+ * Album of each item message, the key is the message ID
+ */
+const albumItems = new Map<string, MsgKey>();
+
+/**
+ * Number of images and videos of each album message, the key is the message ID
+ */
+const albumCounts = new Map<string, { images: number; videos: number }>();
+
+/**
+ * Send multiple images and videos as a single album
+ *
+ * All items are validated and uploaded before sending the album,
+ * so a failed item doesn't leave an empty album in the chat.
+ * When an item fails after the album was sent, the error has the `album`
+ * and the `items` already sent.
+ *
+ * @example
+ * ```javascript
+ * const result = await WPP.chat.sendAlbumMessage(
+ *   '[number]@c.us',
+ *   [
+ *     'data:image/jpeg;base64,<a long base64 file...>',
+ *     { content: 'data:image/jpeg;base64,<a long base64 file...>', caption: 'Kitchen' },
+ *     { content: 'data:video/mp4;base64,<a long base64 file...>', type: 'video' },
+ *   ],
+ *   {
+ *     caption: 'Apartment for sale',
+ *     quotedMsg: 'false_[number]@c.us_ABCDEF',
+ *   }
+ * );
+ *
+ * console.log(result.album.id, result.items.map((i) => i.id));
+ * ```
+ * @category Message
+ */
+export async function sendAlbumMessage(
+  chatId: string | Wid,
+  items: (string | Blob | File | AlbumMessageItem)[],
+  options: AlbumMessageOptions = {}
+): Promise<SendAlbumMessageReturn> {
+  options = {
+    ...defaultSendMessageOptions,
+    ...options,
+  };
+
+  if (!Array.isArray(items) || items.length < 2) {
+    throw new WPPError(
+      'album_needs_two_items',
+      'An album needs at least two images or videos'
+    );
+  }
+
+  const chat = await assertFindChat(chatId);
+
+  const albumItemsData = await Promise.all(
+    items.map(async (item, index) => {
+      const data: AlbumMessageItem =
+        typeof item === 'string' || item instanceof Blob
+          ? { content: item }
+          : item;
+
+      const file = await convertToFile(
+        data.content,
+        data.mimetype,
+        data.filename
+      );
+
+      const type =
+        data.type ||
+        (file.type.startsWith('video/')
+          ? 'video'
+          : file.type.startsWith('image/')
+            ? 'image'
+            : undefined);
+
+      if (!type) {
+        throw new WPPError(
+          'invalid_album_item',
+          `The item ${index} is not an image or video (${file.type})`,
+          {
+            index,
+            mimetype: file.type,
+          }
+        );
+      }
+
+      return { ...data, file, type };
+    })
+  );
+
+  // Upload all items before sending the album
+  const preparedItems = [];
+  for (const item of albumItemsData) {
+    preparedItems.push({
+      ...item,
+      media: await prepareMedia(item.file, { type: item.type }),
+    });
+  }
+
+  const albumId = await generateMessageID(chat);
+  albumCounts.set(albumId.id, {
+    images: albumItemsData.filter((i) => i.type === 'image').length,
+    videos: albumItemsData.filter((i) => i.type === 'video').length,
+  });
+
+  debug(`sending album ${albumId} with ${items.length} items`);
+
+  const rawMessage: RawMessage = {
+    type: 'album',
+  };
+
+  let album: SendMessageReturn;
+  try {
+    album = await sendRawMessage(chat.id, rawMessage, {
+      ...options,
+      messageId: albumId,
+      quotedMsg: undefined,
+      quotedMsgPayload: undefined,
+      waitForAck: true,
+    });
+  } finally {
+    albumCounts.delete(albumId.id);
+  }
+
+  const results: SendMessageReturn[] = [];
+
+  for (const [index, item] of preparedItems.entries()) {
+    const messageId = await generateMessageID(chat);
+    albumItems.set(messageId.id, albumId);
+
+    const isFirst = index === 0;
+
+    try {
+      results.push(
+        await sendFileMessage(chat.id, item.media, {
+          ...options,
+          type: item.type,
+          caption: item.caption ?? (isFirst ? options.caption : undefined),
+          messageId,
+          quotedMsg: isFirst ? options.quotedMsg : undefined,
+          quotedMsgPayload: isFirst ? options.quotedMsgPayload : undefined,
+          // Already applied to the album message
+          markIsRead: false,
+          delay: undefined,
+          waitForAck: options.waitForAck ?? true,
+        })
+      );
+    } catch (error) {
+      throw new WPPError(
+        'album_item_send_failed',
+        `Failed to send the item ${index} of the album ${album.id}`,
+        {
+          index,
+          album,
+          items: results,
+          error,
+        }
+      );
+    } finally {
+      albumItems.delete(messageId.id);
+    }
+  }
+
+  return {
+    album,
+    items: results,
+  };
+}
+
+webpack.onFullReady(() => {
+  wrapModuleFunction(createMsgProtobuf, (func, ...args) => {
+    const [message] = args;
+    const r = func(...args);
+
+    const id: string | undefined = message.id?.id;
+    if (!id) {
+      return r;
+    }
+
+    const counts = albumCounts.get(id);
+    if (counts) {
+      r.albumMessage = {
+        expectedImageCount: counts.images,
+        expectedVideoCount: counts.videos,
+      };
+    }
+
+    const albumId = albumItems.get(id);
+    if (albumId) {
+      r.messageContextInfo = {
+        ...r.messageContextInfo,
+        messageAssociation: {
+          associationType: 1, // MEDIA_ALBUM
+          parentMessageKey: {
+            remoteJid: albumId.remote.toString(),
+            fromMe: albumId.fromMe,
+            id: albumId.id,
+            participant: albumId.participant?.toString(),
+          },
+        },
+      };
+    }
+
+    return r;
+  });
+
+  wrapModuleFunction(mediaTypeFromProtobuf, (func, ...args) => {
+    const [proto] = args;
+    if (proto.albumMessage) {
+      return null;
+    }
+    return func(...args);
+  });
+
+  wrapModuleFunction(typeAttributeFromProtobuf, (func, ...args) => {
+    const [proto] = args;
+    if (proto.albumMessage) {
+      return 'media';
+    }
+    return func(...args);
+  });
+});
@@ -53,7 +53,12 @@ import {
   RawMessage,
   SendMessageOptions,
   SendMessageReturn,
+  WaitForAckResult,
 } from '..';
+import {
+  MediaTransferOptions,
+  trackMediaTransfer,
+} from '../util/mediaTransfer';
 import {
   getMessageById,
   markIsRead,
@@ -62,15 +67,80 @@ import {
   prepareRawMessage,
 } from '.';
 import { prepareAudioWaveform } from './prepareAudioWaveform';
+import {
+  isPreparedMedia,
+  PreparedMedia,
+  sendPreparedMedia,
+} from './prepareMedia';
+import {
+  AudioTranscodeOptions,
+  decodeAudioFile,
+  shouldTranscodeAudio,
+  transcodeAudioToOpus,
+} from './transcodeAudio';
+import {
+  applyVideoPoster,
+  MediaTransformOptions,
+  transformImage,
+  transformVideo,
+} from './transformMedia';
+import { waitForSentMessageAck } from './waitForAck';
 
 const debug = Debug('WA-JS:message');
 
-export interface FileMessageOptions extends SendMessageOptions {
+export interface FileMessageOptions
+  extends SendMessageOptions, MediaTransferOptions {
   type?: string;
   caption?: string;
   footer?: string;
   filename?: string;
   mimetype?: string;
+  /**
+   * Process images and videos before sending, it is not applied to documents.
+   *
+   * Images are resized, compressed, rotated following the EXIF orientation
+   * and the EXIF metadata (like the GPS location) is removed.
+   * Videos are re-encoded when they exceed the limits.
+   *
+   * @example
+   * ```javascript
+   * WPP.chat.sendFileMessage(
+   *  '[number]@c.us',
+   *  'data:image/jpeg;base64,<a long base64 file...>',
+   *  {
+   *    type: 'image',
+   *    transform: {
+   *      maxWidth: 1600,
+   *      maxHeight: 1600,
+   *      quality: 0.7,
+   *      watermark: {
+   *        image: 'https://example.test/logo.png',
+   *        position: 'bottom-right',
+   *        opacity: 0.6,
+   *      },
+   *    },
+   *  }
+   * );
+   *
+   * // Video with a custom thumbnail and limits
+   * WPP.chat.sendFileMessage(
+   *  '[number]@c.us',
+   *  'data:video/mp4;base64,<a long base64 file...>',
+   *  {
+   *    type: 'video',
+   *    transform: {
+   *      video: {
+   *        posterTime: 5,
+   *        maxHeight: 720,
+   *        maxBitrate: 1500000,
+   *        maxDuration: 60,
+   *      },
+   *    },
+   *  }
+   * );
+   * ```
+   */
+  transform?: MediaTransformOptions;
 }
 
 export interface AutoDetectMessageOptions extends FileMessageOptions {
@@ -125,6 +195,29 @@ export interface AudioMessageOptions extends FileMessageOptions {
    * ```
    */
   waveform?: boolean;
+  /**
+   * Transcode the audio to Ogg/Opus before sending, so MP3, WAV or M4A files
+   * can be sent as voice notes.
+   *
+   * By default, only the voice notes (`isPtt`) that are not Ogg are transcoded
+   *
+   * @example
+   * ```javascript
+   * WPP.chat.sendFileMessage(
+   *  '[number]@c.us',
+   *  'data:audio/mp3;base64,<a long base64 file...>',
+   *  {
+   *    type: 'audio',
+   *    isPtt: true,
+   *    transcode: {
+   *      bitrate: 24000,
+   *      sampleRate: 16000,
+   *    }
+   *  }
+   * );
+   * ```
+   */
+  transcode?: boolean | AudioTranscodeOptions;
 }
 
 export interface DocumentMessageOptions
@@ -152,6 +245,14 @@ export interface VideoMessageOptions
   isHD?: boolean;
 }
 
+export type AnyFileMessageOptions =
+  | AutoDetectMessageOptions
+  | AudioMessageOptions
+  | DocumentMessageOptions
+  | ImageMessageOptions
+  | VideoMessageOptions
+  | StickerMessageOptions;
+
 /**
  * Send a file message, that can be an audio, document, image, sticker or video
  *
@@ -239,6 +340,29 @@ export interface VideoMessageOptions
  *  }
  * );
  *
+ * // A file prepared to send to many chats, see prepareMedia
+ * const media = await WPP.chat.prepareMedia(
+ *  'data:image/jpeg;base64,<a long base64 file...>',
+ *  {
+ *    type: 'image',
+ *  }
+ * );
+ * WPP.chat.sendFileMessage('[number]@c.us', media, {
+ *   type: 'image',
+ * });
+ *
+ * // Show the upload progress and allow to cancel it
+ * const controller = new AbortController();
+ * WPP.chat.sendFileMessage(
+ *  '[number]@c.us',
+ *  'data:application/pdf;base64,<a long base64 file...>',
+ *  {
+ *    type: 'document',
+ *    onProgress: ({ loaded, total }) => console.log(loaded, total),
+ *    signal: controller.signal,
+ *  }
+ * );
+ *
  * // Media using Link, the link must be public accessible
  * // CORS must be enabled on the server and available for all domains
  * // (Access-Control-Allow-Origin: *)
@@ -257,14 +381,8 @@ export interface VideoMessageOptions
  */
 export async function sendFileMessage(
   chatId: string | Wid,
-  content: string | Blob | File,
-  options:
-    | AutoDetectMessageOptions
-    | AudioMessageOptions
-    | DocumentMessageOptions
-    | ImageMessageOptions
-    | VideoMessageOptions
-    | StickerMessageOptions
+  content: string | Blob | File | PreparedMedia,
+  options: AnyFileMessageOptions
 ): Promise<SendMessageReturn> {
   options = {
     ...defaultSendMessageOptions,
@@ -275,6 +393,14 @@ export async function sendFileMessage(
     ...options,
   };
 
+  if (options.signal?.aborted) {
+    throw new WPPError('media_upload_aborted', 'The media upload was aborted');
+  }
+
+  if (isPreparedMedia(content)) {
+    return await sendPreparedMedia(chatId, content, options);
+  }
+
   let chat: ChatModel;
   if (chatId?.toString() == 'status@broadcast') {
     chat = new ChatModel({
@@ -284,86 +410,13 @@ export async function sendFileMessage(
     chat = await assertFindChat(chatId);
   }
 
-  const file = await convertToFile(content, options.mimetype, options.filename);
-
+  const { file, mediaPrep, isViewOnce } = await prepareMediaFile(
+    content,
+    options,
+    chatId?.toString() === 'status@broadcast'
+  );
   const filename = file.name;
 
-  // Determine media type for file size validation
-  const mediaType = getMediaTypeForValidation(options.type, file.type);
-  const isStatusMedia = chatId?.toString() === 'status@broadcast';
-
-  // Validate file size before processing
-  try {
-    const isStatusOrigin = isStatusMedia
-      ? 'STATUS_TAB_CAMERA_PHOTO_LIBRARY'
-      : null;
-
-    const limit = whatsapp.MediaGatingUtils.getUploadLimit(
-      mediaType,
-      isStatusOrigin
-    );
-
-    debug(
-      `Validating file size: ${file.size} bytes, limit for ${mediaType}: ${limit} bytes`
-    );
-
-    if (file.size > limit) {
-      throw new WPPError(
-        'file_too_large',
-        `File size ${formatFileSize(file.size)} exceeds the upload limit of ${formatFileSize(limit)} for ${mediaType} files`,
-        { fileSize: file.size, limit, mediaType }
-      );
-    }
-  } catch (error) {
-    // If it's already our WPPError, re-throw it
-    if (error instanceof WPPError) {
-      throw error;
-    }
-  }
-
-  const opaqueData = await OpaqueData.createFromData(file, file.type);
-
-  const rawMediaOptions: {
-    isPtt?: boolean;
-    asDocument?: boolean;
-    asGif?: boolean;
-    isAudio?: boolean;
-    asSticker?: boolean;
-    precomputedFields?: {
-      duration: number;
-      waveform: Uint8Array;
-    };
-  } = {};
-
-  let isViewOnce: boolean | undefined;
-  let maxDimension;
-
-  if (options.type === 'audio') {
-    rawMediaOptions.isPtt = options.isPtt;
-    if (options.isPtt) {
-      isViewOnce = options.isViewOnce;
-    }
-    rawMediaOptions.precomputedFields = await prepareAudioWaveform(
-      options as any,
-      file
-    );
-  } else if (options.type === 'image') {
-    isViewOnce = options.isViewOnce;
-    maxDimension = options?.isHD ? 2560 : 1600;
-  } else if (options.type === 'video') {
-    isViewOnce = options.isViewOnce;
-    rawMediaOptions.asGif = options.isGif;
-  } else if (options.type === 'document') {
-    rawMediaOptions.asDocument = true;
-  } else if (options.type === 'sticker') {
-    rawMediaOptions.asSticker = true;
-  }
-
-  const mediaPrep = MediaPrep.prepRawMedia(opaqueData, {
-    ...rawMediaOptions,
-    maxDimension,
-  });
-
   // The generated message in `sendToChat` is merged with `productMsgOptions`
   let rawMessage = await prepareRawMessage<RawMessage>(
     chat,
@@ -393,8 +446,19 @@ export async function sendFileMessage(
     mediaData.fullWidth = 1128;
   }
   debug(`sending message (${options.type}) with id ${rawMessage.id}`);
+  let onUploadEnd!: () => void;
+  const uploadEnded = new Promise<void>((resolve) => (onUploadEnd = resolve));
+  const untrack = trackMediaTransfer({
+    type: 'upload',
+    id: rawMessage.id?.toString(),
+    key: mediaData.filehash,
+    onProgress: options.onProgress,
+    signal: options.signal,
+    onUploadEnd,
+  });
   const sendMsgResult = mediaPrep.sendToChat(chat, {
-    caption: options.caption,
+    // The caption can be changed by the mentions detection
+    caption: options.caption ? rawMessage.caption : options.caption,
     footer: options.footer,
     isViewOnce,
     productMsgOptions: chatId === 'status@broadcast' ? undefined : rawMessage,
@@ -437,9 +501,27 @@ export async function sendFileMessage(
 
   sendMsgResult.finally(() => {
     message.off('change:mediaData.mediaStage', uploadStage);
+    untrack();
   });
 
+  if (options.signal) {
+    // Only the upload can be canceled, the file can be already uploaded
+    await Promise.race([uploadEnded, sendMsgResult.catch(() => null)]);
+
+    if (options.signal.aborted) {
+      throw new WPPError(
+        'media_upload_aborted',
+        `The media upload of message ${message.id} was aborted`,
+        {
+          id: message.id?.toString(),
+        }
+      );
+    }
+  }
+
   if (chatId !== 'status@broadcast') {
+    let ackResult: WaitForAckResult | undefined;
+
     if (options.waitForAck) {
       debug(`waiting ack for ${message.id}`);
 
@@ -448,12 +530,17 @@ export async function sendFileMessage(
       debug(
         `ack received for ${message.id} (ACK: ${message.ack}, SendResult: ${JSON.stringify(sendResult)})`
       );
+
+      if (typeof options.waitForAck === 'object' && !chat.isNewsletter) {
+        ackResult = await waitForSentMessageAck(message.id, options.waitForAck);
+      }
     }
 
     return {
       id: message.id?.toString(),
-      ack: message.ack!,
+      ack: ackResult?.ack ?? message.ack!,
       sendMsgResult,
+      ...(ackResult && { ackResult }),
     };
   } else {
     // Forced a mode to return the ID since sendMediaResult was giving an error when sending with certain parameters.
@@ -486,6 +573,147 @@ export async function sendFileMessage(
   }
 }
 
+/**
+ * Convert, process and validate the file, and start the media preparation
+ *
+ * @category Message
+ * @internal
+ */
+export async function prepareMediaFile(
+  content: string | Blob | File,
+  options: AnyFileMessageOptions,
+  isStatusMedia = false
+): Promise<{
+  file: File;
+  mediaPrep: ReturnType<typeof MediaPrep.prepRawMedia>;
+  isViewOnce?: boolean;
+  waveform?: Uint8Array;
+}> {
+  let file = await convertToFile(content, options.mimetype, options.filename);
+
+  if (
+    options.transform &&
+    !['audio', 'document', 'sticker'].includes(options.type!)
+  ) {
+    if (file.type.startsWith('image/')) {
+      file = await transformImage(file, options.transform);
+    } else if (file.type.startsWith('video/')) {
+      file = await transformVideo(file, options.transform.video);
+    }
+  }
+
+  // The decoded audio is reused to generate the waveform
+  let audioBuffer: AudioBuffer | undefined;
+
+  if (options.type === 'audio' && shouldTranscodeAudio(options, file)) {
+    try {
+      audioBuffer = await decodeAudioFile(file);
+      file = await transcodeAudioToOpus(
+        audioBuffer,
+        file.name,
+        typeof options.transcode === 'object' ? options.transcode : {}
+      );
+    } catch (error) {
+      debug('Failed to transcode the audio, sending the original file', error);
+    }
+  }
+
+  // Determine media type for file size validation
+  const mediaType = getMediaTypeForValidation(options.type, file.type);
+
+  // Validate file size before processing
+  try {
+    const isStatusOrigin = isStatusMedia
+      ? 'STATUS_TAB_CAMERA_PHOTO_LIBRARY'
+      : null;
+
+    const limit = whatsapp.MediaGatingUtils.getUploadLimit(
+      mediaType,
+      isStatusOrigin
+    );
+
+    debug(
+      `Validating file size: ${file.size} bytes, limit for ${mediaType}: ${limit} bytes`
+    );
+
+    if (file.size > limit) {
+      throw new WPPError(
+        'file_too_large',
+        `File size ${formatFileSize(file.size)} exceeds the upload limit of ${formatFileSize(limit)} for ${mediaType} files`,
+        { fileSize: file.size, limit, mediaType }
+      );
+    }
+  } catch (error) {
+    // If it's already our WPPError, re-throw it
+    if (error instanceof WPPError) {
+      throw error;
+    }
+  }
+
+  const opaqueData = await OpaqueData.createFromData(file, file.type);
+
+  const rawMediaOptions: {
+    isPtt?: boolean;
+    asDocument?: boolean;
+    asGif?: boolean;
+    isAudio?: boolean;
+    asSticker?: boolean;
+    precomputedFields?: {
+      duration: number;
+      waveform: Uint8Array;
+    };
+  } = {};
+
+  let isViewOnce: boolean | undefined;
+  let maxDimension;
+
+  if (options.type === 'audio') {
+    rawMediaOptions.isPtt = options.isPtt;
+    if (options.isPtt) {
+      isViewOnce = options.isViewOnce;
+    }
+    rawMediaOptions.precomputedFields = await prepareAudioWaveform(
+      options as any,
+      file,
+      audioBuffer
+    );
+  } else if (options.type === 'image') {
+    isViewOnce = options.isViewOnce;
+    maxDimension = options?.isHD ? 2560 : 1600;
+  } else if (options.type === 'video') {
+    isViewOnce = options.isViewOnce;
+    rawMediaOptions.asGif = options.isGif;
+  } else if (options.type === 'document') {
+    rawMediaOptions.asDocument = true;
+  } else if (options.type === 'sticker') {
+    rawMediaOptions.asSticker = true;
+  }
+
+  const mediaPrep = MediaPrep.prepRawMedia(opaqueData, {
+    ...rawMediaOptions,
+    maxDimension,
+  });
+
+  // The thumbnail is replaced when the preparation finishes
+  const posterTime = options.transform?.video?.posterTime;
+  if (options.type === 'video' && typeof posterTime === 'number') {
+    const prepared = mediaPrep.waitForPrep().then(async (mediaData) => {
+      await applyVideoPoster(mediaData, file, posterTime).catch((error) => {
+        debug('failed to generate the video poster', error);
+      });
+      return mediaData;
+    });
+    mediaPrep.waitForPrep = () => prepared;
+  }
+
+  return {
+    file,
+    mediaPrep,
+    isViewOnce,
+    waveform: rawMediaOptions.precomputedFields?.waveform,
+  };
+}
+
 /**
  * Generate a white thumbnail as WhatsApp generate for video files
  */
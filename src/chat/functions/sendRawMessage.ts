@@ -35,8 +35,10 @@ import {
   SendMessageOptions,
   SendMessageReturn,
   SendMsgResultObject,
+  WaitForAckResult,
 } from '..';
 import { getMessageById, markIsRead, prepareRawMessage } from '.';
+import { waitForSentMessageAck } from './waitForAck';
 
 const debug = Debug('WA-JS:message');
 
@@ -128,6 +130,7 @@ export async function sendRawMessage(
   const message = await result[0];
 
   let sendMsgResult: SendMsgResultObject | null = null;
+  let ackResult: WaitForAckResult | undefined;
 
   if (options.waitForAck) {
     debug(`waiting ack for ${rawMessage.id}`);
@@ -139,11 +142,15 @@ export async function sendRawMessage(
     debug(
       `ack received for ${rawMessage.id} (ACK: ${message.ack}, SendResult: ${sendMsgResult?.messageSendResult})`
     );
+
+    if (typeof options.waitForAck === 'object' && !chat.isNewsletter) {
+      ackResult = await waitForSentMessageAck(message.id, options.waitForAck);
+    }
   }
 
   return {
     id: message.id.toString(),
-    ack: message.ack!,
+    ack: ackResult?.ack ?? message.ack!,
     ...(message.latestEditMsgKey && {
       latestEditMsgKey: message.latestEditMsgKey,
     }),
@@ -154,5 +161,6 @@ export async function sendRawMessage(
       to: chat.id.toString(),
     }),
     sendMsgResult: sendMsgResult!,
+    ...(ackResult && { ackResult }),
   };
 }
@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import { markdownToWhatsApp, splitText, SplitTextOptions } from '../../util';
 import {
   defaultSendMessageOptions,
   LinkPreviewOptions,
@@ -24,9 +25,57 @@ import {
 } from '..';
 import { prepareLinkPreview, prepareMessageButtons, sendRawMessage } from '.';
 
+export interface SplitTextMessageOptions extends SplitTextOptions {
+  /**
+   * Add the part number at the end of each part, like `(1/3)`
+   *
+   * @default false
+   */
+  numbering?: boolean;
+  /**
+   * Quote the first part in the next parts
+   *
+   * @default false
+   */
+  quoteFirst?: boolean;
+}
+
 export type TextMessageOptions = SendMessageOptions &
   MessageButtonsOptions &
-  LinkPreviewOptions;
+  LinkPreviewOptions & {
+    /**
+     * Format of the content, `markdown` is converted to the WhatsApp formatting
+     *
+     * @example
+     * ```javascript
+     * WPP.chat.sendTextMessage('[number]@c.us', '**Bold** and ~~strike~~', {
+     *   format: 'markdown'
+     * });
+     * ```
+     */
+    format?: 'markdown';
+    /**
+     * Split long texts in multiple messages, see {@link SplitTextOptions}.
+     * The parts are sent in order, waiting the ACK of each one
+     * (unless `waitForAck` is `false`),
+     * and the result is an array with all sent messages.
+     *
+     * The {@link quotedMsg} is used only in the first part
+     * and the buttons only in the last part.
+     *
+     * @example
+     * ```javascript
+     * const results = await WPP.chat.sendTextMessage('[number]@c.us', longText, {
+     *   split: {
+     *     maxLength: 1000,
+     *     by: 'sentence',
+     *     numbering: true,
+     *   }
+     * });
+     * ```
+     */
+    split?: boolean | SplitTextMessageOptions;
+  };
 
 /**
  * Send a text message
@@ -64,16 +113,39 @@ export type TextMessageOptions = SendMessageOptions &
  * ```
  * @category Message
  */
+export async function sendTextMessage(
+  chatId: any,
+  content: any,
+  options: TextMessageOptions & { split: true | SplitTextMessageOptions }
+): Promise<SendMessageReturn[]>;
+export async function sendTextMessage(
+  chatId: any,
+  content: any,
+  options?: TextMessageOptions & { split?: false }
+): Promise<SendMessageReturn>;
+export async function sendTextMessage(
+  chatId: any,
+  content: any,
+  options?: TextMessageOptions
+): Promise<SendMessageReturn | SendMessageReturn[]>;
 export async function sendTextMessage(
   chatId: any,
   content: any,
   options: TextMessageOptions = {}
-): Promise<SendMessageReturn> {
+): Promise<SendMessageReturn | SendMessageReturn[]> {
   options = {
     ...defaultSendMessageOptions,
     ...options,
   };
 
+  if (options.format === 'markdown' && typeof content === 'string') {
+    content = markdownToWhatsApp(content);
+  }
+
+  if (options.split && typeof content === 'string') {
+    return await sendSplitTextMessage(chatId, content, options);
+  }
+
   let rawMessage: RawMessage = {
     body: content,
     type: 'chat',
@@ -87,3 +159,57 @@ export async function sendTextMessage(
 
   return await sendRawMessage(chatId, rawMessage, options);
 }
+
+async function sendSplitTextMessage(
+  chatId: any,
+  content: string,
+  options: TextMessageOptions
+): Promise<SendMessageReturn[]> {
+  const splitOptions: SplitTextMessageOptions =
+    typeof options.split === 'object' ? options.split : {};
+  const maxLength = splitOptions.maxLength || 4096;
+
+  let parts = splitText(content, splitOptions);
+
+  if (splitOptions.numbering && parts.length > 1) {
+    // Reserve space for the suffix, until the number of parts is stable
+    let count = 0;
+    while (count !== parts.length) {
+      count = parts.length;
+      parts = splitText(content, {
+        ...splitOptions,
+        maxLength: maxLength - ` (${count}/${count})`.length,
+      });
+    }
+    parts = parts.map((part, i) => `${part} (${i + 1}/${parts.length})`);
+  }
+
+  const results: SendMessageReturn[] = [];
+
+  for (const [i, part] of parts.entries()) {
+    const isFirst = i === 0;
+    const isLast = i === parts.length - 1;
+
+    let quotedMsg = isFirst ? options.quotedMsg : undefined;
+    if (!isFirst && splitOptions.quoteFirst) {
+      quotedMsg = results[0].id;
+    }
+
+    results.push(
+      await sendTextMessage(chatId, part, {
+        ...options,
+        format: undefined,
+        split: false,
+        messageId: isFirst ? options.messageId : undefined,
+        quotedMsg,
+        quotedMsgPayload: isFirst ? options.quotedMsgPayload : undefined,
+        buttons: isLast ? options.buttons : undefined,
+        title: isLast ? options.title : undefined,
+        footer: isLast ? options.footer : undefined,
+        waitForAck: options.waitForAck ?? true,
+      })
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,277 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { assertWid } from '../../assert';
+import { WPPError } from '../../util';
+import * as webpack from '../../webpack';
+import { MsgKey, MsgStore, Wid } from '../../whatsapp';
+import { wrapModuleFunction } from '../../whatsapp/exportModule';
+import {
+  createMsgProtobuf,
+  mediaTypeFromProtobuf,
+  typeAttributeFromProtobuf,
+} from '../../whatsapp/functions';
+import {
+  defaultSendMessageOptions,
+  RawMessage,
+  SendMessageOptions,
+  SendMessageReturn,
+} from '..';
+import { sendRawMessage } from '.';
+
+const debug = Debug('WA-JS:live-location');
+
+export interface LiveLocationPosition {
+  /**
+   * latitude in degrees
+   */
+  lat: number;
+  /**
+   * longitude in degrees
+   */
+  lng: number;
+  /**
+   * Accuracy in meters
+   */
+  accuracy?: number;
+  /**
+   * Speed in meters per second
+   */
+  speed?: number;
+  /**
+   * Degrees clockwise from the magnetic north
+   */
+  degrees?: number;
+}
+
+export interface LiveLocationOptions
+  extends SendMessageOptions, LiveLocationPosition {
+  /**
+   * Duration of the sharing in seconds
+   *
+   * @default 900
+   */
+  durationSeconds?: number;
+  /**
+   * Caption of the live location
+   */
+  comment?: string;
+}
+
+export interface LiveLocationController {
+  msgId: MsgKey;
+  chatId: Wid;
+  /**
+   * Timestamp in milliseconds when the sharing ends
+   */
+  expiresAt: number;
+  /**
+   * Returns `false` after `stop` or when the duration expires
+   */
+  isActive(): boolean;
+  /**
+   * Send a new position
+   */
+  update(position: LiveLocationPosition): Promise<SendMessageReturn>;
+  /**
+   * Stop the sharing, sending the last known position as the end of the sequence
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start sharing a live location in a chat.
+ *
+ * The result is a controller to send the new positions and stop the sharing,
+ * each position is sent as a live location update with the next sequence number.
+ * The end of the sharing, by `stop` or when the duration expires, is sent as
+ * a last update with the time offset at the end of the duration.
+ *
+ * @example
+ * ```javascript
+ * const live = await WPP.chat.startLiveLocation('[number]@c.us', {
+ *   lat: -22.95201,
+ *   lng: -43.2102601,
+ *   durationSeconds: 3600,
+ *   comment: 'Your order is on the way',
+ * });
+ *
+ * // Send the new position
+ * await live.update({
+ *   lat: -22.95301,
+ *   lng: -43.2112601,
+ *   accuracy: 10,
+ *   speed: 8.5,
+ *   degrees: 90,
+ * });
+ *
+ * // Stop sharing
+ * await live.stop();
+ * ```
+ * @category Message
+ */
+export async function startLiveLocation(
+  chatId: any,
+  options: LiveLocationOptions
+): Promise<LiveLocationController> {
+  options = {
+    ...defaultSendMessageOptions,
+    ...options,
+  };
+
+  const durationSeconds = options.durationSeconds ?? 900;
+  if (!(durationSeconds > 0)) {
+    throw new WPPError(
+      'invalid_live_location_duration',
+      `Invalid live location duration: ${durationSeconds}`,
+      {
+        durationSeconds,
+      }
+    );
+  }
+
+  const wid = assertWid(chatId);
+  const startedAt = Date.now();
+  const expiresAt = startedAt + durationSeconds * 1000;
+
+  let sequence = 0;
+  let active = true;
+  let last: LiveLocationPosition = {
+    lat: options.lat,
+    lng: options.lng,
+    accuracy: options.accuracy,
+    speed: options.speed,
+    degrees: options.degrees,
+  };
+
+  const send = (
+    position: LiveLocationPosition,
+    sendOptions: SendMessageOptions = options,
+    isEnd = false
+  ) => {
+    const rawMessage: RawMessage = {
+      type: 'location',
+      isLive: true,
+      lat: position.lat,
+      lng: position.lng,
+      accuracy: position.accuracy,
+      speed: position.speed,
+      degrees: position.degrees,
+      comment: options.comment,
+      sequence: sequence++,
+      shareDuration: durationSeconds,
+      // The offset at the end of the duration finishes the sharing
+      liveLocationTimeOffset: isEnd
+        ? durationSeconds
+        : Math.floor((Date.now() - startedAt) / 1000),
+    } as any;
+
+    return sendRawMessage(wid, rawMessage, sendOptions);
+  };
+
+  const result = await send(last);
+
+  const updateOptions: SendMessageOptions = {
+    createChat: false,
+    markIsRead: false,
+    waitForAck: true,
+  };
+
+  const finish = async () => {
+    active = false;
+    clearTimeout(timer);
+
+    await send(last, updateOptions, true);
+
+    const msg = MsgStore.get(result.id);
+    msg?.set({ isLive: false });
+
+    debug(`live location ${result.id} stopped`);
+  };
+
+  const timer = setTimeout(() => {
+    finish().catch((error) => {
+      debug(`failed to send the end of live location ${result.id}`, error);
+    });
+  }, expiresAt - startedAt);
+
+  return {
+    msgId: MsgKey.fromString(result.id),
+    chatId: wid,
+    expiresAt,
+    isActive: () => active,
+    update: async (position) => {
+      if (!active) {
+        throw new WPPError(
+          'live_location_not_active',
+          `Live location ${result.id} is not active`,
+          {
+            id: result.id,
+          }
+        );
+      }
+      last = position;
+      return await send(position, updateOptions);
+    },
+    stop: async () => {
+      if (!active) {
+        return;
+      }
+      await finish();
+    },
+  };
+}
+
+webpack.onFullReady(() => {
+  wrapModuleFunction(createMsgProtobuf, (func, ...args) => {
+    const [message] = args;
+    const r = func(...args);
+
+    if (message.isLive && r.locationMessage) {
+      r.liveLocationMessage = {
+        degreesLatitude: message.lat,
+        degreesLongitude: message.lng,
+        accuracyInMeters: message.accuracy,
+        speedInMps: message.speed,
+        degreesClockwiseFromMagneticNorth: message.degrees,
+        caption: message.comment,
+        sequenceNumber: message.sequence,
+        timeOffset: (message as any).liveLocationTimeOffset,
+      };
+      delete r.locationMessage;
+    }
+
+    return r;
+  });
+
+  wrapModuleFunction(mediaTypeFromProtobuf, (func, ...args) => {
+    const [proto] = args;
+    if (proto.liveLocationMessage) {
+      return null;
+    }
+    return func(...args);
+  });
+
+  wrapModuleFunction(typeAttributeFromProtobuf, (func, ...args) => {
+    const [proto] = args;
+    if (proto.liveLocationMessage) {
+      return 'text';
+    }
+    return func(...args);
+  });
+});
@@ -0,0 +1,259 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { createOggOpus, OpusPacket } from '../../util/oggOpus';
+import type { AudioMessageOptions } from './sendFileMessage';
+
+const debug = Debug('WA-JS:chat:sendFileMessage');
+
+export interface AudioTranscodeOptions {
+  /**
+   * Bitrate of the Opus audio in bits per second
+   *
+   * @default 32000
+   */
+  bitrate?: number;
+  /**
+   * Sample rate used to encode the audio, supported by Opus:
+   * 8000, 12000, 16000, 24000 or 48000
+   *
+   * @default 48000
+   */
+  sampleRate?: number;
+}
+
+interface OpusEncoderRequest {
+  pcm: Float32Array;
+  sampleRate: number;
+  bitrate: number;
+}
+
+interface OpusEncoderResult {
+  packets: { data: Uint8Array; duration: number }[];
+  description?: ArrayBuffer;
+}
+
+type OpusEncoderResponse = OpusEncoderResult | { error: string };
+
+/**
+ * Global scope used by the encoder worker
+ */
+interface OpusEncoderWorkerScope {
+  onmessage: ((event: MessageEvent<OpusEncoderRequest>) => void) | null;
+  postMessage(message: OpusEncoderResponse): void;
+}
+
+/**
+ * Code of the worker that encodes the PCM audio to Opus packets,
+ * it must not use any external reference
+ */
+function opusEncoderWorker() {
+  const scope: OpusEncoderWorkerScope = self;
+
+  scope.onmessage = async (event) => {
+    const { pcm, sampleRate, bitrate } = event.data;
+
+    try {
+      const packets: OpusEncoderResult['packets'] = [];
+      let description: ArrayBuffer | undefined;
+      let failure: any = null;
+
+      const audioEncoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+          const data = new Uint8Array(chunk.byteLength);
+          chunk.copyTo(data);
+          packets.push({ data, duration: chunk.duration || 0 });
+
+          const config = metadata && metadata.decoderConfig;
+          if (config && config.description && !description) {
+            const d = config.description;
+            const bytes = ArrayBuffer.isView(d)
+              ? new Uint8Array(d.buffer, d.byteOffset, d.byteLength)
+              : new Uint8Array(d);
+            description = bytes.slice().buffer;
+          }
+        },
+        error: (error) => {
+          failure = error;
+        },
+      });
+
+      audioEncoder.configure({
+        codec: 'opus',
+        sampleRate,
+        numberOfChannels: 1,
+        bitrate,
+      });
+
+      // Encode blocks of one second
+      for (let offset = 0; offset < pcm.length; offset += sampleRate) {
+        const data = pcm.slice(offset, offset + sampleRate);
+        const audioData = new AudioData({
+          format: 'f32-planar',
+          sampleRate,
+          numberOfChannels: 1,
+          numberOfFrames: data.length,
+          timestamp: Math.round((offset * 1000000) / sampleRate),
+          data,
+        });
+        audioEncoder.encode(audioData);
+        audioData.close();
+      }
+
+      await audioEncoder.flush();
+      audioEncoder.close();
+
+      if (failure) {
+        throw failure;
+      }
+
+      scope.postMessage({ packets, description });
+    } catch (error: any) {
+      scope.postMessage({ error: (error && error.message) || String(error) });
+    }
+  };
+}
+
+/**
+ * Check if the audio must be transcoded before sending
+ *
+ * @category Message
+ * @internal
+ */
+export function shouldTranscodeAudio(
+  options: AudioMessageOptions,
+  file: File
+): boolean {
+  if (options.transcode === false) {
+    return false;
+  }
+  if (options.transcode) {
+    return true;
+  }
+
+  // By default, only voice notes that are not Ogg/Opus
+  return !!options.isPtt && !/^audio\/ogg\b/.test(file.type);
+}
+
+/**
+ * Decode an audio file to PCM
+ *
+ * @category Message
+ * @internal
+ */
+export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
+  const audioContext = new AudioContext();
+  try {
+    return await audioContext.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    audioContext.close().catch(() => null);
+  }
+}
+
+async function resampleToMono(
+  audioBuffer: AudioBuffer,
+  sampleRate: number
+): Promise<Float32Array> {
+  const length = Math.ceil(audioBuffer.duration * sampleRate);
+  const context = new OfflineAudioContext(1, Math.max(length, 1), sampleRate);
+
+  const source = context.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+function encodeInWorker(
+  pcm: Float32Array,
+  sampleRate: number,
+  bitrate: number
+): Promise<OpusEncoderResult> {
+  const url = URL.createObjectURL(
+    new Blob([`(${opusEncoderWorker.toString()})()`], {
+      type: 'text/javascript',
+    })
+  );
+  const worker = new Worker(url);
+
+  return new Promise<OpusEncoderResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<OpusEncoderResponse>) => {
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data);
+      }
+    };
+    worker.onerror = (event) => reject(new Error(event.message));
+
+    const request: OpusEncoderRequest = { pcm, sampleRate, bitrate };
+    worker.postMessage(request, [pcm.buffer]);
+  }).finally(() => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  });
+}
+
+/**
+ * Transcode a decoded audio to a mono Ogg/Opus file, like the WhatsApp voice notes.
+ *
+ * The PCM is resampled with WebAudio and encoded with WebCodecs in a worker.
+ *
+ * @category Message
+ * @internal
+ */
+export async function transcodeAudioToOpus(
+  audioBuffer: AudioBuffer,
+  filename: string,
+  options: AudioTranscodeOptions = {}
+): Promise<File> {
+  const sampleRate = options.sampleRate || 48000;
+  const bitrate = options.bitrate || 32000;
+
+  debug(`transcoding audio to opus (${sampleRate}Hz, ${bitrate}bps)`);
+
+  const pcm = await resampleToMono(audioBuffer, sampleRate);
+  const totalSamples = Math.round((pcm.length * 48000) / sampleRate);
+
+  const result = await encodeInWorker(pcm, sampleRate, bitrate);
+
+  // The encoder can provide the OpusHead with the pre-skip
+  let preSkip = 312;
+  if (result.description && result.description.byteLength >= 12) {
+    preSkip = new DataView(result.description).getUint16(10, true);
+  }
+
+  const packets: OpusPacket[] = result.packets.map((p) => ({
+    data: p.data,
+    // The granule position of Opus is always at 48kHz
+    samples: p.duration ? Math.round((p.duration * 48000) / 1000000) : 960,
+  }));
+
+  const blob = createOggOpus(packets, {
+    channels: 1,
+    inputSampleRate: audioBuffer.sampleRate,
+    preSkip,
+    totalSamples,
+  });
+
+  return new File([blob], filename.replace(/\.[^.]*$/, '') + '.ogg', {
+    type: 'audio/ogg; codecs=opus',
+  });
+}
@@ -0,0 +1,529 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { getVideoInfoFromBuffer, resizeImage, WPPError } from '../../util';
+import { MediaDataModel, OpaqueData } from '../../whatsapp';
+
+const debug = Debug('WA-JS:chat:sendFileMessage');
+
+export interface MediaWatermarkOptions {
+  /**
+   * Image of the watermark, like a logo
+   */
+  image?: string | Blob;
+  /**
+   * Text of the watermark, used when there is no image
+   */
+  text?: string;
+  /**
+   * @default 'bottom-right'
+   */
+  position?:
+    'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+  /**
+   * @default 0.5
+   */
+  opacity?: number;
+  /**
+   * Width of the watermark relative to the image width
+   *
+   * @default 0.2
+   */
+  scale?: number;
+  /**
+   * Margin in pixels
+   *
+   * @default 16
+   */
+  margin?: number;
+  /**
+   * Color of the text
+   *
+   * @default 'white'
+   */
+  color?: string;
+}
+
+export interface VideoTransformOptions {
+  /**
+   * Time in seconds of the frame used as thumbnail
+   */
+  posterTime?: number;
+  /**
+   * Max width in pixels, bigger videos are re-encoded
+   */
+  maxWidth?: number;
+  /**
+   * Max height in pixels, bigger videos are re-encoded
+   */
+  maxHeight?: number;
+  /**
+   * Max bitrate in bits per second, videos with higher bitrate are re-encoded
+   */
+  maxBitrate?: number;
+  /**
+   * Max duration in seconds, longer videos are cut
+   */
+  maxDuration?: number;
+}
+
+export interface MediaTransformOptions {
+  /**
+   * Max width of images in pixels, keeping the aspect ratio
+   */
+  maxWidth?: number;
+  /**
+   * Max height of images in pixels, keeping the aspect ratio
+   */
+  maxHeight?: number;
+  /**
+   * Quality of JPEG and WebP images, between 0 and 1
+   *
+   * @default 0.8
+   */
+  quality?: number;
+  /**
+   * Convert the images to this format, the original format is kept by default
+   */
+  mimeType?: 'image/jpeg' | 'image/webp';
+  /**
+   * Rotate the image following the EXIF orientation
+   *
+   * @default true
+   */
+  fixOrientation?: boolean;
+  /**
+   * Remove the EXIF metadata of images, like the GPS location
+   *
+   * @default true
+   */
+  stripExif?: boolean;
+  /**
+   * Draw a watermark over the images
+   */
+  watermark?: MediaWatermarkOptions;
+  /**
+   * Options for video files
+   */
+  video?: VideoTransformOptions;
+}
+
+/**
+ * Max dimension of the video thumbnail sent in the message
+ */
+const POSTER_PREVIEW_SIZE = 100;
+
+async function loadWatermarkImage(image: string | Blob): Promise<ImageBitmap> {
+  const blob =
+    typeof image === 'string' ? await (await fetch(image)).blob() : image;
+  return await createImageBitmap(blob);
+}
+
+function drawWatermark(
+  context: CanvasRenderingContext2D,
+  canvas: HTMLCanvasElement,
+  watermark: MediaWatermarkOptions,
+  image?: ImageBitmap
+) {
+  const margin = watermark.margin ?? 16;
+  const width = canvas.width * (watermark.scale ?? 0.2);
+
+  let height: number;
+  if (image) {
+    height = (image.height * width) / image.width;
+  } else {
+    const fontSize = Math.max(Math.round(canvas.width / 30), 12);
+    context.font = `bold ${fontSize}px sans-serif`;
+    height = fontSize;
+  }
+
+  const contentWidth = image
+    ? width
+    : context.measureText(watermark.text || '').width;
+
+  const position = watermark.position || 'bottom-right';
+  let x = (canvas.width - contentWidth) / 2;
+  let y = (canvas.height - height) / 2;
+
+  if (position.includes('left')) {
+    x = margin;
+  } else if (position.includes('right')) {
+    x = canvas.width - contentWidth - margin;
+  }
+  if (position.startsWith('top')) {
+    y = margin;
+  } else if (position.startsWith('bottom')) {
+    y = canvas.height - height - margin;
+  }
+
+  context.save();
+  context.globalAlpha = watermark.opacity ?? 0.5;
+
+  if (image) {
+    context.drawImage(image, x, y, width, height);
+  } else {
+    context.fillStyle = watermark.color || 'white';
+    context.textBaseline = 'top';
+    context.fillText(watermark.text || '', x, y);
+  }
+
+  context.restore();
+}
+
+/**
+ * Resize, compress, fix the orientation, remove the EXIF
+ * and draw the watermark of an image
+ *
+ * @category Message
+ * @internal
+ */
+export async function transformImage(
+  file: File,
+  options: MediaTransformOptions
+): Promise<File> {
+  // The canvas doesn't support animations
+  if (file.type === 'image/gif') {
+    return file;
+  }
+
+  const watermark = options.watermark;
+  const watermarkImage = watermark?.image
+    ? await loadWatermarkImage(watermark.image)
+    : undefined;
+
+  const result = await resizeImage(file, {
+    maxWidth: options.maxWidth,
+    maxHeight: options.maxHeight,
+    quality: options.quality ?? 0.8,
+    mimeType: options.mimeType,
+    convertSize: Infinity,
+    checkOrientation: options.fixOrientation ?? true,
+    retainExif: options.stripExif === false,
+    // Always use the processed image, the original has the EXIF
+    strict: false,
+    drew: watermark
+      ? (context, canvas) =>
+          drawWatermark(context, canvas, watermark, watermarkImage)
+      : undefined,
+  });
+
+  watermarkImage?.close();
+
+  debug(`image transformed from ${file.size} to ${result.size} bytes`);
+
+  let filename = file.name;
+  if (result.type !== file.type) {
+    const extension = result.type.split('/')[1].replace('jpeg', 'jpg');
+    filename = filename.replace(/\.[^.]*$/, '') + '.' + extension;
+  }
+
+  return new File([result], filename, { type: result.type });
+}
+
+function loadVideo(file: Blob): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.muted = true;
+  video.src = URL.createObjectURL(file);
+
+  return new Promise<HTMLVideoElement>((resolve, reject) => {
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error('Failed to load the video'));
+    };
+  });
+}
+
+function releaseVideo(video: HTMLVideoElement) {
+  video.pause();
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+}
+
+function getTargetSize(
+  width: number,
+  height: number,
+  maxWidth = Infinity,
+  maxHeight = Infinity
+) {
+  const ratio = Math.min(maxWidth / width, maxHeight / height, 1);
+
+  // The video encoders require even dimensions
+  return {
+    width: Math.max(Math.round((width * ratio) / 2) * 2, 2),
+    height: Math.max(Math.round((height * ratio) / 2) * 2, 2),
+  };
+}
+
+/**
+ * Re-encode a video in real time, using a canvas and a MediaRecorder
+ */
+async function reencodeVideo(
+  file: File,
+  options: VideoTransformOptions
+): Promise<File> {
+  const mimeType = ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4'].find(
+    (type) => MediaRecorder.isTypeSupported(type)
+  );
+
+  if (!mimeType) {
+    debug('the browser can not record MP4 videos, sending the original file');
+    return file;
+  }
+
+  const video = await loadVideo(file);
+
+  try {
+    const size = getTargetSize(
+      video.videoWidth,
+      video.videoHeight,
+      options.maxWidth,
+      options.maxHeight
+    );
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext('2d')!;
+
+    // The audio is routed to the recorder, without playing it
+    const audioContext = new AudioContext();
+    const audioDestination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(audioDestination);
+    video.muted = false;
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(30).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.maxBitrate,
+    });
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+
+    const maxDuration = options.maxDuration ?? Infinity;
+    const duration = Math.min(video.duration, maxDuration);
+
+    // The video is played in real time, the timeout allows slow playbacks
+    const timeout = Number.isFinite(duration)
+      ? duration * 2000 + 30000
+      : 10 * 60 * 1000;
+
+    let finished = false;
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const stopped = new Promise<void>((resolve, reject) => {
+      const stop = () => {
+        if (recorder.state === 'recording') {
+          recorder.stop();
+        }
+      };
+
+      recorder.onstop = () => resolve();
+      video.onended = stop;
+      video.ontimeupdate = () => {
+        if (video.currentTime >= maxDuration) {
+          stop();
+        }
+      };
+
+      timer = setTimeout(() => {
+        stop();
+        reject(
+          new WPPError(
+            'video_transform_timeout',
+            `Timeout re-encoding the video ${file.name}`,
+            { timeout }
+          )
+        );
+      }, timeout);
+    });
+
+    // The animation frames are paused in background tabs, so the frames are
+    // drawn by the video callback and by a timer, when the callback is paused
+    const drawFrame = () => {
+      if (finished) {
+        return;
+      }
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      if ('requestVideoFrameCallback' in video) {
+        video.requestVideoFrameCallback(drawFrame);
+      }
+    };
+
+    video.currentTime = 0;
+    recorder.start(1000);
+
+    try {
+      await video.play();
+      drawFrame();
+      interval = setInterval(
+        () => context.drawImage(video, 0, 0, canvas.width, canvas.height),
+        1000 / 30
+      );
+
+      await stopped;
+    } finally {
+      finished = true;
+      if (interval) {
+        clearInterval(interval);
+      }
+      if (timer) {
+        clearTimeout(timer);
+      }
+      if (recorder.state === 'recording') {
+        recorder.stop();
+      }
+      await audioContext.close().catch(() => null);
+    }
+
+    const result = new File(
+      chunks,
+      file.name.replace(/\.[^.]*$/, '') + '.mp4',
+      {
+        type: 'video/mp4',
+      }
+    );
+
+    debug(`video re-encoded from ${file.size} to ${result.size} bytes`);
+
+    return result;
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+/**
+ * Re-encode the video when it is known to exceed the limits
+ *
+ * @category Message
+ * @internal
+ */
+export async function transformVideo(
+  file: File,
+  options: VideoTransformOptions = {}
+): Promise<File> {
+  let result = file;
+
+  if (
+    options.maxWidth ||
+    options.maxHeight ||
+    options.maxBitrate ||
+    options.maxDuration
+  ) {
+    let info: { duration: number; width: number; height: number } | null = null;
+    try {
+      info = getVideoInfoFromBuffer(await file.arrayBuffer());
+    } catch (error) {
+      debug('failed to read the video info', error);
+    }
+
+    // Videos without a readable header are sent without changes
+    const exceeds =
+      !!info &&
+      ((!!options.maxWidth && info.width > options.maxWidth) ||
+        (!!options.maxHeight && info.height > options.maxHeight) ||
+        (!!options.maxDuration && info.duration > options.maxDuration) ||
+        (!!options.maxBitrate &&
+          info.duration > 0 &&
+          (file.size * 8) / info.duration > options.maxBitrate));
+
+    if (exceeds) {
+      result = await reencodeVideo(file, options);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Generate the thumbnail of a video using the frame of the poster time
+ */
+async function generateVideoPoster(
+  file: Blob,
+  posterTime: number,
+  maxDimension: number
+): Promise<Blob> {
+  const video = await loadVideo(file);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new Error('Failed to seek the video'));
+      video.currentTime = Math.min(
+        Math.max(posterTime, 0),
+        Math.max(video.duration - 0.1, 0)
+      );
+    });
+
+    const size = getTargetSize(
+      video.videoWidth,
+      video.videoHeight,
+      maxDimension,
+      maxDimension
+    );
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    canvas
+      .getContext('2d')!
+      .drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob
+            ? resolve(blob)
+            : reject(new Error('Failed to create the poster')),
+        'image/jpeg'
+      );
+    });
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+/**
+ * Replace the thumbnail of a prepared video by the frame of the poster time
+ *
+ * @category Message
+ * @internal
+ */
+export async function applyVideoPoster(
+  mediaData: MediaDataModel,
+  file: Blob,
+  posterTime: number
+): Promise<void> {
+  const poster = await generateVideoPoster(
+    file,
+    posterTime,
+    POSTER_PREVIEW_SIZE
+  );
+
+  mediaData.set({
+    preview: await OpaqueData.createFromData(poster, poster.type),
+  });
+}
@@ -0,0 +1,87 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { MsgKey } from '../../whatsapp';
+import { sendVote } from '../../whatsapp/functions';
+import { getPollMessage } from './getPollResults';
+
+/**
+ * Vote in a poll, or change the previous vote, using the option names.
+ * Use an empty list to remove the vote.
+ *
+ * @example
+ * ```javascript
+ * await WPP.chat.votePoll('false_[number]@c.us_ABCDEF', ['Option 1']);
+ *
+ * // Multiple options
+ * await WPP.chat.votePoll('false_[number]@c.us_ABCDEF', ['Option 1', 'Option 3']);
+ *
+ * // Remove the vote
+ * await WPP.chat.votePoll('false_[number]@c.us_ABCDEF', []);
+ * ```
+ * @category Chat
+ */
+export async function votePoll(
+  id: string | MsgKey,
+  optionNames: string[]
+): Promise<{
+  msgId: MsgKey;
+  selectedOptions: string[];
+}> {
+  const msg = await getPollMessage(id);
+
+  const names = Array.from(new Set(optionNames));
+  const selectedOptionLocalIds: number[] = [];
+
+  for (const name of names) {
+    const option = (msg.pollOptions || []).find((o: any) => o.name === name);
+
+    if (!option) {
+      throw new WPPError(
+        'poll_option_not_found',
+        `Option ${name} not found in poll ${msg.id.toString()}`,
+        {
+          id: msg.id.toString(),
+          name,
+        }
+      );
+    }
+    selectedOptionLocalIds.push(option.localId);
+  }
+
+  const selectableCount = msg.pollSelectableOptionsCount || 0;
+  if (selectableCount > 0 && selectedOptionLocalIds.length > selectableCount) {
+    throw new WPPError(
+      'poll_too_many_options',
+      `Poll ${msg.id.toString()} allows at most ${selectableCount} options`,
+      {
+        id: msg.id.toString(),
+        selectableCount,
+      }
+    );
+  }
+
+  await sendVote({
+    poll: msg,
+    selectedOptionLocalIds,
+  });
+
+  return {
+    msgId: msg.id,
+    selectedOptions: names,
+  };
+}
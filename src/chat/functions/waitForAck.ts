@@ -0,0 +1,187 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { internalEv } from '../../eventEmitter';
+import { WPPError } from '../../util';
+import { MsgKey } from '../../whatsapp';
+import { ACK } from '../../whatsapp/enums';
+import { WaitForAckOptions, WaitForAckResult } from '..';
+import { getMessageACK, getMessageById } from '.';
+
+const debug = Debug('WA-JS:message');
+
+/**
+ * Wait until a sent message reaches an ACK level.
+ *
+ * For groups and broadcasts, the level is reached when all participants
+ * have reached it, the result contains the detail of each participant.
+ *
+ * @example
+ * ```javascript
+ * const result = await WPP.chat.sendTextMessage('[number]@c.us', 'Hello');
+ *
+ * // Wait until the message is received (default)
+ * const ack = await WPP.chat.waitForAck(result.id);
+ *
+ * // Wait until the message is read, for at most 5 minutes
+ * try {
+ *   const ack = await WPP.chat.waitForAck(result.id, {
+ *     level: WPP.whatsapp.enums.ACK.READ,
+ *     timeout: 300000,
+ *   });
+ *   console.log(ack.ack, ack.participants);
+ * } catch (error) {
+ *   // error.code === 'wait_for_ack_timeout'
+ * }
+ * ```
+ *
+ * @category Message
+ */
+export async function waitForAck(
+  msgId: string | MsgKey,
+  options: WaitForAckOptions = {}
+): Promise<WaitForAckResult> {
+  const level = options.level ?? ACK.RECEIVED;
+  const timeout = options.timeout ?? 60000;
+
+  const msg = await getMessageById(msgId);
+  const id = msg.id.toString();
+
+  if (!msg.id.fromMe) {
+    throw new WPPError(
+      'message_not_from_me',
+      `The message ${id} was not sent by me`,
+      { id }
+    );
+  }
+
+  debug(`waiting ack ${level} for ${id}`);
+
+  return new Promise<WaitForAckResult>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let finished = false;
+    let lastAck = msg.ack!;
+
+    const finish = (error: any, result?: WaitForAckResult) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+
+      if (timer) {
+        clearTimeout(timer);
+      }
+      internalEv.off('chat.msg_ack_change', onAckChange);
+      msg.off('change:ack', onMsgAckChange);
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+
+    async function check(eventAck?: number) {
+      try {
+        const info = await getMessageACK(msg.id);
+        const isMultiple = info.participants.length > 0;
+
+        // In groups, the message ACK is updated when all participants reach it
+        let ack = info.ack;
+        if (!isMultiple && typeof eventAck === 'number') {
+          ack = Math.max(ack, eventAck);
+        }
+        lastAck = Math.max(lastAck, ack);
+
+        if (ack < ACK.CLOCK) {
+          finish(
+            new WPPError('message_send_failed', `The message ${id} failed`, {
+              id,
+              ack,
+            })
+          );
+        } else if (ack >= level) {
+          debug(`ack ${ack} reached for ${id}`);
+          finish(null, { ack, participants: info.participants });
+        }
+      } catch (error) {
+        finish(error);
+      }
+    }
+
+    function onAckChange(event: { ack: number; ids: MsgKey[] }) {
+      // The remote can be a LID or a phone number, so only the ID is compared
+      if (event.ids.some((key) => key.id === msg.id.id)) {
+        queueMicrotask(() => check(event.ack));
+      }
+    }
+
+    function onMsgAckChange() {
+      check();
+    }
+
+    internalEv.on('chat.msg_ack_change', onAckChange);
+    msg.on('change:ack', onMsgAckChange);
+
+    if (timeout > 0) {
+      timer = setTimeout(() => {
+        finish(
+          new WPPError(
+            'wait_for_ack_timeout',
+            `Timeout waiting ACK ${level} for message ${id}`,
+            { id, ack: lastAck }
+          )
+        );
+      }, timeout);
+    }
+
+    check();
+  });
+}
+
+/**
+ * Wait for the ACK of a message that was already sent, returning the
+ * timeout and the failure in the result instead of throwing an error,
+ * so the caller keeps the message ID and doesn't send it again
+ *
+ * @internal
+ */
+export async function waitForSentMessageAck(
+  msgId: string | MsgKey,
+  options: WaitForAckOptions
+): Promise<WaitForAckResult> {
+  try {
+    return await waitForAck(msgId, options);
+  } catch (error: any) {
+    if (
+      !(error instanceof WPPError) ||
+      (error.code !== 'wait_for_ack_timeout' &&
+        error.code !== 'message_send_failed')
+    ) {
+      throw error;
+    }
+
+    const info = await getMessageACK(msgId).catch(() => null);
+
+    return {
+      ack: info?.ack ?? (error as any).ack,
+      participants: info?.participants || [],
+      ...(error.code === 'wait_for_ack_timeout' && { timedOut: true }),
+    };
+  }
+}
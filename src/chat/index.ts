@@ -19,5 +19,6 @@ import './patch';
 
 export * from './defaultSendMessageOptions';
 export * from './functions';
+export * as queue from './queue';
 export * from './types';
 export * from './util';
@@ -0,0 +1,98 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertWid } from '../../assert';
+import { internalEv } from '../../eventEmitter';
+import { WPPError } from '../../util';
+import { toStorableValue } from '../../util/indexedDBStore';
+import { isPreparedMedia } from '../functions/prepareMedia';
+import { addJob, processQueue } from './processor';
+import { QueuedMessage, QueueSendFunctions, QueueSendMethod } from './types';
+
+/**
+ * Add a message to the outbound queue.
+ *
+ * Queued messages are persisted in IndexedDB, so they survive page reloads,
+ * and are sent respecting the global and per chat rate limits
+ * defined in {@link Config.sendQueue}.
+ *
+ * A message is removed from the storage only after it was sent, so a message
+ * interrupted by a page reload is sent again when the queue is loaded
+ * (at least once delivery).
+ *
+ * Arguments must be serializable, objects like `Wid`, `MsgKey` and `MsgModel`
+ * are converted to string IDs, and callbacks and abort signals are removed.
+ * Binary values (`Blob`, `ArrayBuffer` and typed arrays) are stored as is.
+ * Media prepared by {@link prepareMedia} can't be stored.
+ *
+ * @example
+ * ```javascript
+ * // Queue a text message
+ * const job = await WPP.chat.queue.enqueue(
+ *   'sendTextMessage',
+ *   '[number]@c.us',
+ *   'Hello'
+ * );
+ *
+ * // Queue a file message
+ * await WPP.chat.queue.enqueue(
+ *   'sendFileMessage',
+ *   '[number]@c.us',
+ *   'data:image/jpeg;base64,<a long base64 file...>',
+ *   { type: 'image', caption: 'My image' }
+ * );
+ *
+ * // Get the result
+ * WPP.on('queue.sent', ({ job, result }) => {
+ *   console.log(job.id, result.id);
+ * });
+ *
+ * // Change the rate limits (messages per minute)
+ * WPP.config.sendQueue.globalPerMinute = 20;
+ * WPP.config.sendQueue.chatPerMinute = 5;
+ * ```
+ *
+ * @category Queue
+ */
+export async function enqueue<M extends QueueSendMethod>(
+  method: M,
+  ...args: Parameters<QueueSendFunctions[M]>
+): Promise<QueuedMessage<M>> {
+  const chatId = assertWid(args[0]).toString();
+
+  if (args.some(isPreparedMedia)) {
+    throw new WPPError(
+      'prepared_media_not_storable',
+      'Media prepared by prepareMedia can not be added to the queue'
+    );
+  }
+
+  const job: QueuedMessage<M> = {
+    id: crypto.randomUUID(),
+    chatId,
+    method,
+    args: [chatId, ...args.slice(1).map(toStorableValue)] as any,
+    createdAt: Date.now(),
+  };
+
+  await addJob(job);
+
+  internalEv.emit('queue.enqueued', { job });
+
+  processQueue();
+
+  return job;
+}
@@ -0,0 +1,68 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SendMessageReturn } from '../types';
+import { QueuedMessage } from './types';
+
+export interface QueueEventTypes {
+  /**
+   * Triggered when a message is added to the outbound queue
+   *
+   * @example
+   * ```javascript
+   * WPP.on('queue.enqueued', ({ job }) => {
+   *   // Your code
+   * });
+   * ```
+   */
+  'queue.enqueued': {
+    job: QueuedMessage;
+  };
+  /**
+   * Triggered when a queued message was sent
+   *
+   * @example
+   * ```javascript
+   * WPP.on('queue.sent', ({ job, result }) => {
+   *   console.log(job.id, result);
+   * });
+   * ```
+   */
+  'queue.sent': {
+    job: QueuedMessage;
+    /**
+     * An array with all parts when a text was sent with the `split` option
+     */
+    result: SendMessageReturn | SendMessageReturn[];
+  };
+  /**
+   * Triggered when a queued message could not be sent,
+   * the message is removed from the queue.
+   * Messages that failed while disconnected are kept in the queue instead,
+   * and sent again after the reconnection
+   *
+   * @example
+   * ```javascript
+   * WPP.on('queue.failed', ({ job, error }) => {
+   *   // Your code
+   * });
+   * ```
+   */
+  'queue.failed': {
+    job: QueuedMessage;
+    error: any;
+  };
+}
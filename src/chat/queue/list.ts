@@ -0,0 +1,36 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { jobs } from './processor';
+import { QueuedMessage } from './types';
+
+/**
+ * List the messages waiting in the outbound queue, in sending order
+ *
+ * @example
+ * ```javascript
+ * // All queued messages
+ * const list = WPP.chat.queue.list();
+ *
+ * // Queued messages for a chat
+ * const list = WPP.chat.queue.list('[number]@c.us');
+ * ```
+ *
+ * @category Queue
+ */
+export function list(chatId?: string): QueuedMessage[] {
+  return jobs.filter((j) => !chatId || j.chatId === chatId);
+}
@@ -0,0 +1,62 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getPaused, setPaused } from './processor';
+
+/**
+ * Pause the outbound queue, the messages remain queued
+ *
+ * @example
+ * ```javascript
+ * WPP.chat.queue.pause();
+ *
+ * // Continue sending
+ * WPP.chat.queue.resume();
+ * ```
+ *
+ * @category Queue
+ */
+export function pause(): void {
+  setPaused(true);
+}
+
+/**
+ * Resume the outbound queue
+ *
+ * @example
+ * ```javascript
+ * WPP.chat.queue.resume();
+ * ```
+ *
+ * @category Queue
+ */
+export function resume(): void {
+  setPaused(false);
+}
+
+/**
+ * Check if the outbound queue is paused
+ *
+ * @example
+ * ```javascript
+ * const paused = WPP.chat.queue.isPaused();
+ * ```
+ *
+ * @category Queue
+ */
+export function isPaused(): boolean {
+  return getPaused();
+}
@@ -0,0 +1,282 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { config } from '../../config';
+import { internalEv } from '../../eventEmitter';
+import { createIndexedDBStore } from '../../util/indexedDBStore';
+import { NetworkStatus, Stream } from '../../whatsapp';
+import {
+  sendCreatePollMessage,
+  sendEventMessage,
+  sendFileMessage,
+  sendListMessage,
+  sendLocationMessage,
+  sendTextMessage,
+  sendVCardContactMessage,
+} from '../functions';
+import { QueuedMessage, QueueSendFunctions } from './types';
+
+const debug = Debug('WA-JS:queue');
+
+const WINDOW = 60 * 1000;
+
+const senders: QueueSendFunctions = {
+  sendCreatePollMessage,
+  sendEventMessage,
+  sendFileMessage,
+  sendListMessage,
+  sendLocationMessage,
+  sendTextMessage,
+  sendVCardContactMessage,
+};
+
+interface SentRecord {
+  id: string;
+  chatId: string;
+  t: number;
+}
+
+const jobStorage = createIndexedDBStore<QueuedMessage>('queue');
+const historyStorage = createIndexedDBStore<SentRecord>('queue-history');
+
+export const jobs: QueuedMessage[] = [];
+let history: SentRecord[] = [];
+
+let isLoaded = false;
+let isPaused = false;
+let isRunning = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// Started again after a reconnection to resume the kept messages
+internalEv.on('conn.main_ready', loadQueue);
+
+internalEv.on('config.update', ({ path }) => {
+  if (path[0] === 'sendQueue') {
+    processQueue();
+  }
+});
+
+async function loadQueue() {
+  if (isLoaded) {
+    processQueue();
+    return;
+  }
+
+  try {
+    const [storedJobs, storedHistory] = await Promise.all([
+      jobStorage.getAll(),
+      historyStorage.getAll(),
+    ]);
+
+    for (const job of storedJobs) {
+      if (!jobs.some((j) => j.id === job.id)) {
+        jobs.push(job);
+      }
+    }
+    jobs.sort((a, b) => a.createdAt - b.createdAt);
+
+    history.push(...storedHistory);
+    history.sort((a, b) => a.t - b.t);
+    debug(`loaded ${storedJobs.length} queued messages`);
+  } catch (error) {
+    debug('failed to load the queue', error);
+  }
+
+  isLoaded = true;
+  processQueue();
+}
+
+function limit(value: number) {
+  return value > 0 ? value : Infinity;
+}
+
+function pruneHistory(now: number) {
+  const expired = history.filter((r) => r.t <= now - WINDOW);
+  if (!expired.length) {
+    return;
+  }
+
+  history = history.filter((r) => r.t > now - WINDOW);
+  for (const record of expired) {
+    historyStorage.delete(record.id).catch(() => null);
+  }
+}
+
+/**
+ * Find the next message that fits in the rate limits,
+ * or the time (in ms) to wait for the next available slot
+ */
+function nextJob(now: number): QueuedMessage | number | null {
+  if (!jobs.length) {
+    return null;
+  }
+
+  const globalLimit = limit(config.sendQueue.globalPerMinute);
+  const chatLimit = limit(config.sendQueue.chatPerMinute);
+
+  if (history.length >= globalLimit) {
+    return history[history.length - globalLimit].t + WINDOW - now;
+  }
+
+  let wait = Infinity;
+  for (const job of jobs) {
+    const sent = history.filter((r) => r.chatId === job.chatId);
+    if (sent.length < chatLimit) {
+      return job;
+    }
+    wait = Math.min(wait, sent[sent.length - chatLimit].t + WINDOW - now);
+  }
+
+  return wait;
+}
+
+export async function processQueue(): Promise<void> {
+  if (!isLoaded || isPaused || isRunning) {
+    return;
+  }
+
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  isRunning = true;
+  try {
+    while (!isPaused) {
+      const now = Date.now();
+      pruneHistory(now);
+
+      const next = nextJob(now);
+      if (next === null) {
+        break;
+      }
+
+      if (typeof next === 'number') {
+        debug(`rate limit reached, waiting ${next}ms`);
+        timer = setTimeout(() => {
+          timer = null;
+          processQueue();
+        }, next);
+        break;
+      }
+
+      if (!(await sendJob(next))) {
+        debug('client disconnected, waiting for the reconnection');
+        break;
+      }
+    }
+  } finally {
+    isRunning = false;
+  }
+}
+
+function isConnected(): boolean {
+  return Stream.mode === 'MAIN' && NetworkStatus.online;
+}
+
+/**
+ * Send a queued message, returns `false` when it was kept in the queue
+ * because the client is disconnected
+ */
+async function sendJob(job: QueuedMessage): Promise<boolean> {
+  const record: SentRecord = {
+    id: job.id,
+    chatId: job.chatId,
+    t: Date.now(),
+  };
+  history.push(record);
+  await historyStorage.put(record.id, record).catch(() => null);
+
+  // Only removed from the storage after the send, so a message interrupted
+  // by a reload is sent again (at least once delivery)
+  const index = jobs.indexOf(job);
+  if (index >= 0) {
+    jobs.splice(index, 1);
+  }
+
+  debug(`sending queued message ${job.id} (${job.method}) to ${job.chatId}`);
+  try {
+    const send = senders[job.method] as (...args: any[]) => any;
+    const result = await send(...job.args);
+    await jobStorage.delete(job.id).catch(() => null);
+
+    // Each part of a split text counts in the rate limits
+    if (Array.isArray(result)) {
+      for (let i = 1; i < result.length; i++) {
+        const part: SentRecord = { ...record, id: `${job.id}:${i}` };
+        history.push(part);
+        await historyStorage.put(part.id, part).catch(() => null);
+      }
+    }
+
+    internalEv.emit('queue.sent', { job, result });
+  } catch (error) {
+    if (!isConnected()) {
+      debug(`queued message ${job.id} kept, client disconnected`, error);
+      history = history.filter((r) => r !== record);
+      await historyStorage.delete(record.id).catch(() => null);
+
+      const position = jobs.findIndex((j) => j.createdAt > job.createdAt);
+      jobs.splice(position >= 0 ? position : jobs.length, 0, job);
+      return false;
+    }
+
+    debug(`failed to send queued message ${job.id}`, error);
+    await jobStorage.delete(job.id).catch(() => null);
+    internalEv.emit('queue.failed', { job, error });
+  }
+
+  return true;
+}
+
+export async function addJob(job: QueuedMessage): Promise<void> {
+  jobs.push(job);
+  await jobStorage.put(job.id, job).catch((error) => {
+    debug('failed to persist queued message', error);
+  });
+}
+
+export async function removeJob(id: string): Promise<QueuedMessage | null> {
+  const index = jobs.findIndex((j) => j.id === id);
+  const [job] = index >= 0 ? jobs.splice(index, 1) : [null];
+
+  await jobStorage.delete(id).catch(() => null);
+
+  return job;
+}
+
+export async function clearJobs(): Promise<QueuedMessage[]> {
+  const removed = jobs.splice(0, jobs.length);
+  await jobStorage.clear().catch(() => null);
+  return removed;
+}
+
+export function setPaused(paused: boolean): void {
+  isPaused = paused;
+  if (paused && timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (!paused) {
+    processQueue();
+  }
+}
+
+export function getPaused(): boolean {
+  return isPaused;
+}
@@ -0,0 +1,45 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { removeJob } from './processor';
+import { QueuedMessage } from './types';
+
+/**
+ * Remove a message from the outbound queue before it is sent
+ *
+ * @example
+ * ```javascript
+ * const job = await WPP.chat.queue.enqueue('sendTextMessage', '[number]@c.us', 'Hello');
+ *
+ * await WPP.chat.queue.remove(job.id);
+ * ```
+ *
+ * @category Queue
+ */
+export async function remove(id: string): Promise<QueuedMessage> {
+  const job = await removeJob(id);
+
+  if (!job) {
+    throw new WPPError(
+      'queued_message_not_found',
+      `Queued message ${id} not found`,
+      { id }
+    );
+  }
+
+  return job;
+}
@@ -0,0 +1,63 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  sendCreatePollMessage,
+  sendEventMessage,
+  sendFileMessage,
+  sendListMessage,
+  sendLocationMessage,
+  sendTextMessage,
+  sendVCardContactMessage,
+} from '../functions';
+
+/**
+ * Send functions that can be used through the outbound queue
+ */
+export interface QueueSendFunctions {
+  sendCreatePollMessage: typeof sendCreatePollMessage;
+  sendEventMessage: typeof sendEventMessage;
+  sendFileMessage: typeof sendFileMessage;
+  sendListMessage: typeof sendListMessage;
+  sendLocationMessage: typeof sendLocationMessage;
+  sendTextMessage: typeof sendTextMessage;
+  sendVCardContactMessage: typeof sendVCardContactMessage;
+}
+
+export type QueueSendMethod = keyof QueueSendFunctions;
+
+export interface QueuedMessage<M extends QueueSendMethod = QueueSendMethod> {
+  /**
+   * Unique ID of the queued message
+   */
+  id: string;
+  /**
+   * Destination chat
+   */
+  chatId: string;
+  /**
+   * Send function used to deliver the message
+   */
+  method: M;
+  /**
+   * Serialized arguments of the send function
+   */
+  args: Parameters<QueueSendFunctions[M]>;
+  /**
+   * Timestamp (in ms) when the message was enqueued
+   */
+  createdAt: number;
+}
@@ -21,9 +21,42 @@ import {
   SendMsgResultObject,
   Wid,
 } from '../whatsapp';
+import { ACK } from '../whatsapp/enums';
+import { ParticipantStatusACK } from './functions/getMessageACK';
 
 export type { SendMsgResultObject };
 
+export interface WaitForAckOptions {
+  /**
+   * The minimum ACK level to wait for
+   *
+   * @default ACK.RECEIVED
+   */
+  level?: ACK;
+  /**
+   * Max time to wait (in ms), use 0 to wait forever
+   *
+   * @default 60000
+   */
+  timeout?: number;
+}
+
+export interface WaitForAckResult {
+  /**
+   * The ACK level reached
+   */
+  ack: ACK;
+  /**
+   * ACK detail of each participant, only for groups and broadcast
+   */
+  participants: ParticipantStatusACK[];
+  /**
+   * The level was not reached before the timeout,
+   * only in the result of the `waitForAck` option of the send functions
+   */
+  timedOut?: boolean;
+}
+
 export interface SendMessageOptions {
   /**
    * Create a new chat to a new contact
@@ -43,6 +76,10 @@ export interface SendMessageOptions {
   /**
    * Automatic detect and add the mentioned contacts with @[number]
    *
+   * In groups, `@DisplayName` (saved name, push name or business name)
+   * is replaced by the number, and `@everyone` or `@all` mention
+   * all participants
+   *
    * @default true
    *
    * @example
@@ -50,10 +87,22 @@ export interface SendMessageOptions {
    * WPP.chat.sendTextMessage('[number]@c.us', 'Hello @123 and @456', {
    *   detectMentioned: true
    * });
+   *
+   * WPP.chat.sendTextMessage('[group-id]@g.us', 'Hello @John Smith and @everyone', {
+   *   detectMentioned: true
+   * });
    * ```
    */
   detectMentioned?: boolean;
 
+  /**
+   * What to do when a `@DisplayName` mention matches more than one
+   * participant, `warn` ignores the mention with a console warning
+   *
+   * @default 'warn'
+   */
+  ambiguousMention?: 'warn' | 'fail';
+
   /**
    * Automatically mark chat is read after send a message
    *
@@ -109,6 +158,9 @@ export interface SendMessageOptions {
   /**
    * Wait for send while the ACK of message is SENT(1)
    *
+   * Use an object to wait for a specific ACK level,
+   * see {@link waitForAck} for details
+   *
    * @default true
    *
    * @example
@@ -116,9 +168,14 @@ export interface SendMessageOptions {
    * WPP.chat.sendTextMessage('[number]@c.us', 'Wait for sent', {
    *   waitForAck: true
    * })
+   *
+   * // Wait until the message is read, for at most 5 minutes
+   * WPP.chat.sendTextMessage('[number]@c.us', 'Wait for read', {
+   *   waitForAck: { level: WPP.whatsapp.enums.ACK.READ, timeout: 300000 }
+   * })
    * ```
    */
-  waitForAck?: boolean;
+  waitForAck?: boolean | WaitForAckOptions;
   /**
    * Delay some time (in ms) before sending message
    * While delaying, Typing Status is used to look like a human interaction
@@ -140,6 +197,11 @@ export interface SendMessageReturn {
   latestEditMsgKey?: MsgKey;
   ack: number;
   sendMsgResult: Promise<SendMsgResultObject>;
+  /**
+   * Only when the `waitForAck` option is an object,
+   * the timeout doesn't throw an error because the message was already sent
+   */
+  ackResult?: WaitForAckResult;
 }
 
 export type RawMessage = ModelPropertiesContructor<MsgModel>;
@@ -15,3 +15,4 @@
  */
 
 export * from './rehydrateMessage';
+export * from './resolveNameMentions';
@@ -0,0 +1,168 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { internalEv } from '../../eventEmitter';
+
+export interface MediaTransferProgress {
+  /**
+   * Bytes transferred
+   */
+  loaded: number;
+  /**
+   * Total of bytes, `0` when unknown
+   */
+  total: number;
+}
+
+export interface MediaTransferOptions {
+  /**
+   * Called when more bytes were transferred
+   */
+  onProgress?: (progress: MediaTransferProgress) => void;
+  /**
+   * Signal to cancel the transfer
+   */
+  signal?: AbortSignal;
+}
+
+export interface MediaTransfer extends MediaTransferOptions {
+  type: 'upload' | 'download';
+  /**
+   * Message ID
+   */
+  id?: string;
+  /**
+   * File hash of uploads and direct path of downloads
+   */
+  key: string;
+  /**
+   * Called when the upload of the file finished or failed
+   */
+  onUploadEnd?: () => void;
+}
+
+const transfers = new Set<MediaTransfer>();
+
+/**
+ * Track the progress of an upload or download started by WhatsApp,
+ * returns a function to stop the tracking
+ */
+export function trackMediaTransfer(transfer: MediaTransfer): () => void {
+  transfers.add(transfer);
+  return () => {
+    transfers.delete(transfer);
+  };
+}
+
+/**
+ * Find the tracked uploads of a file hash,
+ * the same file can be uploaded once for many messages
+ */
+export function findUploadTransfers(filehash: string): MediaTransfer[] {
+  return [...transfers].filter(
+    (transfer) =>
+      transfer.type === 'upload' && !!filehash && transfer.key === filehash
+  );
+}
+
+/**
+ * Find the tracked download of a request URL, by the direct path
+ */
+export function findDownloadTransfer(url: string): MediaTransfer | undefined {
+  for (const transfer of transfers) {
+    if (
+      transfer.type === 'download' &&
+      !!transfer.key &&
+      url.includes(transfer.key)
+    ) {
+      return transfer;
+    }
+  }
+}
+
+export function emitMediaTransferProgress(
+  type: 'upload' | 'download',
+  transfer: MediaTransfer | undefined,
+  progress: MediaTransferProgress
+) {
+  try {
+    transfer?.onProgress?.(progress);
+  } catch (_error) {}
+
+  internalEv.emit(
+    type === 'upload'
+      ? 'chat.media_upload_progress'
+      : 'chat.media_download_progress',
+    {
+      id: transfer?.id,
+      loaded: progress.loaded,
+      total: progress.total,
+    }
+  );
+}
+
+/**
+ * Combine the signal of the request with the signal of the transfer
+ */
+export function combineAbortSignals(
+  ...signals: (AbortSignal | null | undefined)[]
+): AbortSignal | undefined {
+  const list = signals.filter((s): s is AbortSignal => !!s);
+  if (list.length < 2) {
+    return list[0];
+  }
+
+  const controller = new AbortController();
+  for (const signal of list) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), {
+      once: true,
+    });
+  }
+  return controller.signal;
+}
+
+/**
+ * Signal aborted only when all the signals are aborted,
+ * so an upload shared by many messages is canceled only by all of them
+ */
+export function everyAbortSignal(
+  signals: (AbortSignal | undefined)[]
+): AbortSignal | undefined {
+  const list = signals.filter((s): s is AbortSignal => !!s);
+  if (!list.length || list.length < signals.length) {
+    return undefined;
+  }
+  if (list.length === 1) {
+    return list[0];
+  }
+
+  const controller = new AbortController();
+  const check = () => {
+    if (!controller.signal.aborted && list.every((s) => s.aborted)) {
+      controller.abort(list[0].reason);
+    }
+  };
+  for (const signal of list) {
+    signal.addEventListener('abort', check, { once: true });
+  }
+  check();
+
+  return controller.signal;
+}
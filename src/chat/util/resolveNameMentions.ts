@@ -0,0 +1,130 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getParticipants } from '../../group';
+import { WPPError } from '../../util';
+import { fold } from '../../util/fold';
+import { ChatModel, Wid } from '../../whatsapp';
+
+export interface ResolveNameMentionsResult {
+  /**
+   * The text with the names replaced by `@<number>`
+   */
+  text: string;
+  /**
+   * Participants mentioned by `@everyone` or `@all`
+   */
+  everyone: Wid[];
+}
+
+/**
+ * Replace the `@DisplayName` mentions of a group message by
+ * `@<number>`, using the saved name, the push name or the business name
+ * of the participants. The longest matching name is used.
+ *
+ * @internal
+ */
+export async function resolveNameMentions(
+  chat: ChatModel,
+  text: string,
+  ambiguous: 'warn' | 'fail' = 'warn'
+): Promise<ResolveNameMentionsResult> {
+  const result: ResolveNameMentionsResult = { text, everyone: [] };
+
+  if (!chat.id.isGroup() || !text.includes('@')) {
+    return result;
+  }
+
+  const participants = await getParticipants(chat.id);
+
+  const candidates: { name: string; wid: Wid }[] = [];
+  for (const p of participants) {
+    const contact = p.contact;
+    const names = [contact?.name, contact?.pushname, contact?.verifiedName];
+
+    for (const name of new Set(names)) {
+      if (typeof name === 'string' && name.trim()) {
+        candidates.push({ name: fold(name.trim()), wid: p.id });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.name.length - a.name.length);
+
+  let output = '';
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    const previous = text[index - 1];
+
+    if (char !== '@' || (previous && /[\p{L}\p{N}_]/u.test(previous))) {
+      output += char;
+      index++;
+      continue;
+    }
+
+    const rest = text.substring(index + 1);
+    const folded = fold(rest);
+
+    if (/^(everyone|all)(?![\p{L}\p{N}_])/iu.test(rest)) {
+      result.everyone = participants.map((p) => p.id);
+      output += char;
+      index++;
+      continue;
+    }
+
+    const found = candidates.find(
+      (c) =>
+        folded.startsWith(c.name) &&
+        !/[\p{L}\p{N}_]/u.test(rest[c.name.length] || '')
+    );
+
+    if (!found) {
+      output += char;
+      index++;
+      continue;
+    }
+
+    const matches = candidates.filter((c) => c.name === found.name);
+    const wids = Array.from(new Set(matches.map((c) => c.wid.toString())));
+
+    if (wids.length > 1) {
+      const name = rest.substring(0, found.name.length);
+
+      if (ambiguous === 'fail') {
+        throw new WPPError(
+          'ambiguous_mention',
+          `The mention @${name} matches more than one participant`,
+          { name, participants: wids }
+        );
+      }
+
+      console.warn(
+        `WA-JS: The mention @${name} matches more than one participant, ignoring it`
+      );
+      output += char;
+      index++;
+      continue;
+    }
+
+    output += '@' + found.wid.user;
+    index += 1 + found.name.length;
+  }
+
+  result.text = output;
+
+  return result;
+}
@@ -0,0 +1,58 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from '../../config/Config';
+import { defaultConfig } from '../../config/defaultConfig';
+
+export type RevokedMessagesCacheConfig = Config['revokedMessagesCache'];
+
+/**
+ * Fill the options missing in the `revokedMessagesCache` config,
+ * because the config is merged with the default values only in the top level
+ */
+export function getRevokedMessagesCacheConfig(
+  value: Partial<RevokedMessagesCacheConfig> = {}
+): RevokedMessagesCacheConfig {
+  const defaults = defaultConfig.revokedMessagesCache;
+
+  return {
+    enabled: value.enabled ?? defaults.enabled,
+    maxMessages: value.maxMessages ?? defaults.maxMessages,
+    maxAge: value.maxAge ?? defaults.maxAge,
+    maxStoredMessages: value.maxStoredMessages ?? defaults.maxStoredMessages,
+    storedMaxAge: value.storedMaxAge ?? defaults.storedMaxAge,
+  };
+}
+
+/**
+ * Remove the recent messages exceeding the `maxMessages` and `maxAge` limits,
+ * the map must be sorted by insertion time
+ */
+export function pruneRecentMessages(
+  messages: Map<string, { cachedAt: number }>,
+  value?: Partial<RevokedMessagesCacheConfig>,
+  now = Date.now()
+): void {
+  const { maxMessages, maxAge } = getRevokedMessagesCacheConfig(value);
+  const minDate = now - maxAge * 1000;
+
+  for (const [key, item] of messages) {
+    if (messages.size <= maxMessages && item.cachedAt >= minDate) {
+      break;
+    }
+    messages.delete(key);
+  }
+}
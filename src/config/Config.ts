@@ -81,4 +81,37 @@ export interface Config {
    * @default false
    */
   syncAllStatus: boolean;
+
+  /**
+   * Rate limits used by the outbound message queue (`WPP.chat.queue`),
+   * in messages per minute. Use 0 to disable a limit
+   * @default { globalPerMinute: 30, chatPerMinute: 10 }
+   */
+  sendQueue: {
+    globalPerMinute: number;
+    chatPerMinute: number;
+  };
+
+  /**
+   * Record every version of edited messages in the browser storage,
+   * see `WPP.chat.getEditHistory`
+   * @default false
+   */
+  trackEditHistory: boolean;
+
+  /**
+   * Keep the content of recent messages in memory, so the `chat.msg_revoke`
+   * event can include the revoked content, see `WPP.chat.getRevokedMessages`.
+   * `maxMessages` and `maxAge` (in seconds) limit the recent messages kept.
+   * `maxStoredMessages` and `storedMaxAge` (in seconds) limit the revoked
+   * messages kept in the browser storage, use 0 to keep them forever
+   * @default { enabled: false, maxMessages: 1000, maxAge: 86400, maxStoredMessages: 5000, storedMaxAge: 2592000 }
+   */
+  revokedMessagesCache: {
+    enabled: boolean;
+    maxMessages: number;
+    maxAge: number;
+    maxStoredMessages: number;
+    storedMaxAge: number;
+  };
 }
@@ -26,4 +26,16 @@ export const defaultConfig: Config = {
   poweredBy: 'WA-JS',
   sendStatusToDevice: false,
   syncAllStatus: true,
+  sendQueue: {
+    globalPerMinute: 30,
+    chatPerMinute: 10,
+  },
+  trackEditHistory: false,
+  revokedMessagesCache: {
+    enabled: false,
+    maxMessages: 1000,
+    maxAge: 86400,
+    maxStoredMessages: 5000,
+    storedMaxAge: 2592000,
+  },
 };
@@ -14,32 +14,41 @@
  * limitations under the License.
  */
 
+import { AutoReplyEventTypes } from '../autoreply/events/eventTypes';
 import { BlocklistEventTypes } from '../blocklist/events/eventTypes';
 import { CallEventTypes } from '../call/events/eventTypes';
 import { ChatEventTypes } from '../chat/events/eventTypes';
+import { QueueEventTypes } from '../chat/queue/eventTypes';
 import { ConfigEventTypes } from '../config/eventTypes';
 import { ConnEventTypes } from '../conn/events/eventTypes';
 import { GroupEventTypes } from '../group/events/eventTypes';
 import { OrderEventTypes } from '../order/events/eventTypes';
+import { QuickReplyEventTypes } from '../quickReply/events/eventTypes';
 import { StatusEventTypes } from '../status/events/eventTypes';
 import { WebpackEvents } from '../webpack/eventTypes';
 
+export { AutoReplyEventTypes } from '../autoreply/events/eventTypes';
 export { BlocklistEventTypes } from '../blocklist/events/eventTypes';
 export { CallEventTypes } from '../call/events/eventTypes';
 export { ChatEventTypes } from '../chat/events/eventTypes';
+export { QueueEventTypes } from '../chat/queue/eventTypes';
 export { ConfigEventTypes } from '../config/eventTypes';
 export { ConnEventTypes } from '../conn/events/eventTypes';
 export { GroupEventTypes } from '../group/events/eventTypes';
 export { OrderEventTypes } from '../order/events/eventTypes';
+export { QuickReplyEventTypes } from '../quickReply/events/eventTypes';
 export { StatusEventTypes } from '../status/events/eventTypes';
 export { WebpackEvents } from '../webpack/eventTypes';
 
-export type EventTypes = BlocklistEventTypes &
+export type EventTypes = AutoReplyEventTypes &
+  BlocklistEventTypes &
   CallEventTypes &
   ChatEventTypes &
   ConfigEventTypes &
   ConnEventTypes &
   GroupEventTypes &
   OrderEventTypes &
+  QueueEventTypes &
+  QuickReplyEventTypes &
   StatusEventTypes &
   WebpackEvents;
@@ -26,6 +26,7 @@ export { isInjected, isReady, isFullReady } from './webpack';
 
 export { config, Config } from './config';
 
+export * as autoreply from './autoreply';
 export * as blocklist from './blocklist';
 export * as call from './call';
 export * as cart from './cart';
@@ -39,7 +40,9 @@ export * as community from './community';
 export * as group from './group';
 export * as labels from './labels';
 export * as profile from './profile';
+export * as quickReply from './quickReply';
 export * as status from './status';
+export * as sticker from './sticker';
 export * as util from './util';
 export * as newsletter from './newsletter';
 export * as whatsapp from './whatsapp';
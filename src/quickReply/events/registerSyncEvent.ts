@@ -0,0 +1,45 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { internalEv } from '../../eventEmitter';
+import * as webpack from '../../webpack';
+import { QuickReplyStore } from '../../whatsapp';
+
+webpack.onFullReady(registerSyncEvent);
+
+function registerSyncEvent() {
+  let scheduled = false;
+
+  // A sync changes many quick replies, so only one event is triggered
+  const emitSync = () => {
+    if (scheduled) {
+      return;
+    }
+    scheduled = true;
+
+    setTimeout(() => {
+      scheduled = false;
+      internalEv.emit('quick_reply.sync', {
+        quickReplies: QuickReplyStore.getModelsArray(),
+      });
+    }, 100);
+  };
+
+  QuickReplyStore.on('add', emitSync);
+  QuickReplyStore.on('remove', emitSync);
+  QuickReplyStore.on('change', emitSync);
+  QuickReplyStore.on('reset', emitSync);
+}
@@ -0,0 +1,106 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertIsBusiness } from '../../assert';
+import { WPPError } from '../../util';
+import { QuickReplyModel, QuickReplyStore } from '../../whatsapp';
+import { quickReplyAddAction } from '../../whatsapp/functions';
+import { get } from '.';
+
+export interface QuickReplyOptions {
+  /**
+   * The shortcut used to find the quick reply, without the `/`
+   */
+  shortcut: string;
+  message: string;
+  keywords?: string[];
+}
+
+/**
+ * Wait the quick reply from the sync after an action
+ */
+export async function waitQuickReply(
+  shortcut: string
+): Promise<QuickReplyModel | undefined> {
+  const found = await get(shortcut);
+  if (found) {
+    return found;
+  }
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      QuickReplyStore.off('add', check);
+      resolve(undefined);
+    }, 5000);
+
+    async function check() {
+      const found = await get(shortcut);
+      if (found) {
+        clearTimeout(timeout);
+        QuickReplyStore.off('add', check);
+        resolve(found);
+      }
+    }
+
+    QuickReplyStore.on('add', check);
+  });
+}
+
+/**
+ * Create a new quick reply, available only for business accounts
+ *
+ * @example
+ * ```javascript
+ * await WPP.quickReply.create({
+ *   shortcut: 'welcome',
+ *   message: 'Hello {{name}}, welcome to our store!',
+ *   keywords: ['hello'],
+ * });
+ * ```
+ *
+ * @category QuickReply
+ */
+export async function create(
+  options: QuickReplyOptions
+): Promise<QuickReplyModel | undefined> {
+  assertIsBusiness();
+
+  const shortcut = options.shortcut?.replace(/^\//, '').trim();
+
+  if (!shortcut || !options.message) {
+    throw new WPPError(
+      'invalid_quick_reply',
+      'The shortcut and the message are required'
+    );
+  }
+
+  if (await get(shortcut)) {
+    throw new WPPError(
+      'quick_reply_already_exists',
+      `Quick reply with shortcut ${shortcut} already exists`,
+      { shortcut }
+    );
+  }
+
+  await quickReplyAddAction(
+    shortcut,
+    options.message,
+    options.keywords || [],
+    0
+  );
+
+  return await waitQuickReply(shortcut);
+}
@@ -0,0 +1,46 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertIsBusiness } from '../../assert';
+import { WPPError } from '../../util';
+import { quickReplyDeleteAction } from '../../whatsapp/functions';
+import { get } from '.';
+
+/**
+ * Delete a quick reply, available only for business accounts
+ *
+ * @example
+ * ```javascript
+ * await WPP.quickReply.delete('welcome');
+ * ```
+ *
+ * @category QuickReply
+ */
+export async function remove(idOrShortcut: string): Promise<void> {
+  assertIsBusiness();
+
+  const quickReply = await get(idOrShortcut);
+
+  if (!quickReply) {
+    throw new WPPError(
+      'quick_reply_not_found',
+      `Quick reply ${idOrShortcut} not found`,
+      { id: idOrShortcut }
+    );
+  }
+
+  await quickReplyDeleteAction(quickReply.id);
+}
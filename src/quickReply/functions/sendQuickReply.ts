@@ -0,0 +1,111 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  SendMessageOptions,
+  SendMessageReturn,
+  sendRawMessage,
+  sendTextMessage,
+} from '../../chat';
+import { WPPError } from '../../util';
+import { get } from '.';
+
+/**
+ * Replace the `{{name}}` placeholders, unknown variables are kept
+ */
+function expandVariables(
+  text: string,
+  vars: { [key: string]: string | number }
+): string {
+  return text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
+
+/**
+ * Send a quick reply, replacing the `{{name}}` placeholders by the variables.
+ *
+ * When the quick reply has media attached, the media is sent with the text
+ * as caption, without a new upload.
+ *
+ * @example
+ * ```javascript
+ * // Quick reply with the message: Hello {{name}}, your order is {{order}}
+ * await WPP.quickReply.sendQuickReply('[number]@c.us', 'order', {
+ *   name: 'John',
+ *   order: 1234,
+ * });
+ * ```
+ *
+ * @category QuickReply
+ */
+export async function sendQuickReply(
+  chatId: any,
+  shortcut: string,
+  vars: { [key: string]: string | number } = {},
+  options: SendMessageOptions = {}
+): Promise<SendMessageReturn[]> {
+  const quickReply = await get(shortcut);
+
+  if (!quickReply) {
+    throw new WPPError(
+      'quick_reply_not_found',
+      `Quick reply ${shortcut} not found`,
+      { shortcut }
+    );
+  }
+
+  const text = expandVariables(quickReply.message || '', vars);
+  const attachments = quickReply.mediaAttachments || [];
+  const results: SendMessageReturn[] = [];
+
+  if (!attachments.length) {
+    results.push(await sendTextMessage(chatId, text, options));
+  }
+
+  for (const [index, media] of attachments.entries()) {
+    results.push(
+      await sendRawMessage(
+        chatId,
+        {
+          type: media.type,
+          mimetype: media.mimetype,
+          directPath: media.directPath,
+          deprecatedMms3Url: media.deprecatedMms3Url,
+          mediaKey: media.mediaKey,
+          mediaKeyTimestamp: media.mediaKeyTimestamp,
+          filehash: media.filehash,
+          encFilehash: media.encFilehash,
+          size: media.size,
+          width: media.width,
+          height: media.height,
+          duration: media.duration,
+          filename: media.filename,
+          // Only the first media has the text
+          caption: index === 0 ? text : undefined,
+        },
+        options
+      )
+    );
+  }
+
+  // Increase the usage count, like in the phone
+  try {
+    quickReply.useOnce();
+  } catch (_error) {}
+
+  return results;
+}
@@ -16,6 +16,7 @@
 
 import { assertWid } from '../../assert';
 import * as Chat from '../../chat';
+import { MediaTransferOptions } from '../../chat/util/mediaTransfer';
 import { getMyUserWid } from '../../conn/functions/getMyUserWid';
 import * as webpack from '../../webpack';
 import { MsgKey } from '../../whatsapp';
@@ -37,6 +38,10 @@ export interface SendStatusOptions {
   messageId?: string | MsgKey;
   // Only image and video status
   caption?: string;
+  // Only image and video status
+  onProgress?: MediaTransferOptions['onProgress'];
+  // Only image and video status
+  signal?: AbortSignal;
 }
 
 export async function sendRawStatus(
@@ -0,0 +1,274 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Debug from 'debug';
+
+import { convertToFile, WPPError } from '../../util';
+import { AnimatedWebpFrame, createAnimatedWebp } from '../../util/animatedWebp';
+import { OpaqueData } from '../../whatsapp';
+import { isAnimatedWebp, processRawSticker } from '../../whatsapp/functions';
+
+const debug = Debug('WA-JS:sticker');
+
+const STICKER_SIZE = 512;
+
+/**
+ * Max size of animated stickers accepted by WhatsApp
+ */
+const MAX_ANIMATED_SIZE = 500 * 1024;
+
+export interface CreateStickerOptions {
+  /**
+   * Max frames per second of animated stickers
+   *
+   * @default 10
+   */
+  fps?: number;
+  /**
+   * Max duration of animated stickers, in seconds
+   *
+   * @default 6
+   */
+  maxDuration?: number;
+  /**
+   * Quality of the animated stickers, from 0 to 1
+   *
+   * @default 0.8
+   */
+  quality?: number;
+}
+
+function drawFrame(
+  canvas: HTMLCanvasElement,
+  source: CanvasImageSource,
+  width: number,
+  height: number
+) {
+  const ctx = canvas.getContext('2d')!;
+  const scale = Math.min(STICKER_SIZE / width, STICKER_SIZE / height);
+  const w = width * scale;
+  const h = height * scale;
+
+  ctx.clearRect(0, 0, STICKER_SIZE, STICKER_SIZE);
+  ctx.drawImage(source, (STICKER_SIZE - w) / 2, (STICKER_SIZE - h) / 2, w, h);
+}
+
+function canvasToWebp(canvas: HTMLCanvasElement, quality: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(blob)
+          : reject(
+              new WPPError('sticker_encode_failed', 'Failed to encode sticker')
+            ),
+      'image/webp',
+      quality
+    );
+  });
+}
+
+function createCanvas() {
+  const canvas = document.createElement('canvas');
+  canvas.width = STICKER_SIZE;
+  canvas.height = STICKER_SIZE;
+  return canvas;
+}
+
+/**
+ * Extract the frames of animated images (GIF or WebP) using the ImageDecoder
+ */
+async function getImageFrames(
+  file: File,
+  fps: number,
+  maxDuration: number,
+  quality: number
+): Promise<AnimatedWebpFrame[]> {
+  const ImageDecoder = (window as any).ImageDecoder;
+
+  if (!ImageDecoder) {
+    throw new WPPError(
+      'animated_sticker_not_supported',
+      'This browser is not able to decode animated images'
+    );
+  }
+
+  const decoder = new ImageDecoder({
+    data: await file.arrayBuffer(),
+    type: file.type,
+  });
+
+  await decoder.completed;
+
+  const canvas = createCanvas();
+  const frames: AnimatedWebpFrame[] = [];
+  const frameCount: number = decoder.tracks.selectedTrack.frameCount;
+  const minFrameDuration = 1000 / fps;
+  let elapsed = 0;
+
+  try {
+    for (let i = 0; i < frameCount && elapsed < maxDuration * 1000; i++) {
+      const { image } = await decoder.decode({ frameIndex: i });
+      // The duration is in microseconds
+      const duration = (image.duration || 100000) / 1000;
+      elapsed += duration;
+
+      const last = frames[frames.length - 1];
+      if (last && last.duration < minFrameDuration) {
+        // Drop frames to reduce the frame rate
+        last.duration += duration;
+        image.close();
+        continue;
+      }
+
+      drawFrame(canvas, image, image.displayWidth, image.displayHeight);
+      image.close();
+
+      frames.push({ webp: await canvasToWebp(canvas, quality), duration });
+    }
+  } finally {
+    decoder.close();
+  }
+
+  return frames;
+}
+
+/**
+ * Extract the frames of a video, seeking the video for each frame
+ */
+async function getVideoFrames(
+  file: File,
+  fps: number,
+  maxDuration: number,
+  quality: number
+): Promise<AnimatedWebpFrame[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () =>
+        reject(new WPPError('invalid_video', 'Failed to load the video'));
+      video.src = url;
+    });
+
+    const canvas = createCanvas();
+    const frames: AnimatedWebpFrame[] = [];
+    const duration = Math.min(video.duration, maxDuration);
+    const step = 1 / fps;
+
+    for (let time = 0; time < duration; time += step) {
+      await new Promise<void>((resolve) => {
+        video.onseeked = () => resolve();
+        video.currentTime = time;
+      });
+
+      drawFrame(canvas, video, video.videoWidth, video.videoHeight);
+
+      frames.push({
+        webp: await canvasToWebp(canvas, quality),
+        duration: step * 1000,
+      });
+    }
+
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Create a WebP sticker (512x512) from an image, GIF or video.
+ *
+ * Static images are converted using the WhatsApp sticker processing,
+ * GIFs, animated WebP and videos are converted to animated stickers.
+ *
+ * @example
+ * ```javascript
+ * // From an image
+ * const sticker = await WPP.sticker.createSticker('data:image/png;base64,<a long base64 file...>');
+ *
+ * // Animated sticker from a video, 3 seconds with 8 frames per second
+ * const sticker = await WPP.sticker.createSticker(videoBlob, {
+ *   fps: 8,
+ *   maxDuration: 3,
+ * });
+ *
+ * await WPP.sticker.sendSticker('[number]@c.us', sticker);
+ * ```
+ *
+ * @category Sticker
+ */
+export async function createSticker(
+  content: string | Blob | File,
+  options: CreateStickerOptions = {}
+): Promise<Blob> {
+  const file = await convertToFile(content);
+  const fps = Math.max(options.fps || 10, 1);
+  const maxDuration = options.maxDuration || 6;
+  const quality = options.quality ?? 0.8;
+
+  // Fixed steps to reduce the quality of animated stickers that are too big
+  const qualities = [quality, ...[0.6, 0.4, 0.2].filter((q) => q < quality)];
+
+  const isVideo = file.type.startsWith('video/');
+  const isAnimated =
+    isVideo ||
+    file.type === 'image/gif' ||
+    (file.type === 'image/webp' && isAnimatedWebp(await file.arrayBuffer()));
+
+  if (isAnimated) {
+    for (let step = 0; ; step++) {
+      const frames = isVideo
+        ? await getVideoFrames(file, fps, maxDuration, qualities[step])
+        : await getImageFrames(file, fps, maxDuration, qualities[step]);
+
+      if (frames.length > 1) {
+        const sticker = await createAnimatedWebp(
+          frames,
+          STICKER_SIZE,
+          STICKER_SIZE
+        );
+
+        if (sticker.size <= MAX_ANIMATED_SIZE || step >= qualities.length - 1) {
+          return sticker;
+        }
+
+        debug(
+          `animated sticker is too big (${sticker.size}), reducing quality`
+        );
+        continue;
+      }
+
+      if (frames.length === 1) {
+        return frames[0].webp;
+      }
+
+      throw new WPPError(
+        'invalid_sticker_content',
+        'No frames found to create the sticker'
+      );
+    }
+  }
+
+  const data = await OpaqueData.createFromData(file, file.type);
+  const result = await processRawSticker(data);
+
+  return result.mediaBlob.forceToBlob();
+}
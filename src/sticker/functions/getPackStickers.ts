@@ -0,0 +1,51 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WPPError } from '../../util';
+import { StickerModel, StickerPackStore } from '../../whatsapp';
+import { getStickerPacks } from '.';
+
+/**
+ * Get the stickers of an installed sticker pack
+ *
+ * @example
+ * ```javascript
+ * const packs = await WPP.sticker.getStickerPacks();
+ *
+ * const stickers = await WPP.sticker.getPackStickers(packs[0].id);
+ * ```
+ *
+ * @category Sticker
+ */
+export async function getPackStickers(packId: string): Promise<StickerModel[]> {
+  await getStickerPacks();
+
+  const pack = StickerPackStore.get(packId);
+
+  if (!pack) {
+    throw new WPPError(
+      'sticker_pack_not_found',
+      `Sticker pack ${packId} not found`,
+      { packId }
+    );
+  }
+
+  if (!pack.stickers.length) {
+    await pack.stickers.fetch();
+  }
+
+  return pack.stickers.getModelsArray();
+}
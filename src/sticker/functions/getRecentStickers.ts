@@ -0,0 +1,35 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RecentStickerStore, StickerModel } from '../../whatsapp';
+
+/**
+ * Get the recently used stickers
+ *
+ * @example
+ * ```javascript
+ * const stickers = await WPP.sticker.getRecentStickers();
+ * ```
+ *
+ * @category Sticker
+ */
+export async function getRecentStickers(): Promise<StickerModel[]> {
+  if (!RecentStickerStore.isSynced()) {
+    await RecentStickerStore.sync();
+  }
+
+  return RecentStickerStore.getModelsArray();
+}
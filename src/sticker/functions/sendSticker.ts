@@ -0,0 +1,140 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  getMessageById,
+  sendFileMessage,
+  SendMessageOptions,
+  SendMessageReturn,
+  sendRawMessage,
+} from '../../chat';
+import {
+  FavoriteStickerStore,
+  MsgKey,
+  MsgModel,
+  RecentStickerStore,
+  StickerModel,
+  StickerPackStore,
+  StickerSearchStore,
+  StickerStore,
+} from '../../whatsapp';
+import { createSticker } from '.';
+
+/**
+ * Find a sticker already loaded by its ID
+ */
+function findSticker(id: string): StickerModel | undefined {
+  const stores = [
+    StickerStore,
+    RecentStickerStore,
+    FavoriteStickerStore,
+    StickerSearchStore,
+  ];
+
+  for (const store of stores) {
+    const sticker = store?.get(id);
+    if (sticker) {
+      return sticker;
+    }
+  }
+
+  for (const pack of StickerPackStore.getModelsArray()) {
+    const sticker = pack.stickers?.get(id);
+    if (sticker) {
+      return sticker;
+    }
+  }
+}
+
+/**
+ * Find a sticker message sent or received before
+ */
+async function findStickerMessage(id: string): Promise<MsgModel | undefined> {
+  try {
+    MsgKey.fromString(id);
+  } catch (_error) {
+    return;
+  }
+
+  const msg = await getMessageById(id).catch(() => null);
+
+  return msg?.type === 'sticker' ? msg : undefined;
+}
+
+/**
+ * Send a sticker.
+ *
+ * Installed, recent and favorite stickers, and stickers of sent or received
+ * messages are sent using the media already uploaded, without a new upload.
+ * Other contents (images, GIFs, videos) are converted by {@link createSticker}
+ *
+ * @example
+ * ```javascript
+ * // Send a recent sticker
+ * const stickers = await WPP.sticker.getRecentStickers();
+ * await WPP.sticker.sendSticker('[number]@c.us', stickers[0].id);
+ *
+ * // Send the sticker of a previous message again
+ * const result = await WPP.sticker.sendSticker('[number]@c.us', blob);
+ * await WPP.sticker.sendSticker('[number2]@c.us', result.id);
+ *
+ * // Send an image as sticker
+ * await WPP.sticker.sendSticker('[number]@c.us', 'data:image/png;base64,<a long base64 file...>');
+ * ```
+ *
+ * @category Sticker
+ */
+export async function sendSticker(
+  chatId: any,
+  sticker: string | StickerModel | Blob | File,
+  options: SendMessageOptions = {}
+): Promise<SendMessageReturn> {
+  let media: StickerModel | MsgModel | undefined;
+
+  if (sticker instanceof StickerModel) {
+    media = sticker;
+  } else if (typeof sticker === 'string') {
+    media = findSticker(sticker) || (await findStickerMessage(sticker));
+  }
+
+  if (!media) {
+    const content = await createSticker(sticker as string | Blob);
+
+    return await sendFileMessage(chatId, content, {
+      ...options,
+      type: 'sticker',
+    });
+  }
+
+  return await sendRawMessage(
+    chatId,
+    {
+      type: 'sticker',
+      mimetype: media.mimetype || 'image/webp',
+      directPath: media.directPath,
+      deprecatedMms3Url: media.deprecatedMms3Url,
+      mediaKey: media.mediaKey,
+      mediaKeyTimestamp: media.mediaKeyTimestamp,
+      filehash: media.filehash,
+      encFilehash: media.encFilehash,
+      size: media.size,
+      width: media.width,
+      height: media.height,
+      isAnimated: (media as MsgModel).isAnimated,
+    },
+    options
+  );
+}
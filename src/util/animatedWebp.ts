@@ -0,0 +1,142 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface AnimatedWebpFrame {
+  /**
+   * A WebP image with the canvas size, encoded by the browser
+   */
+  webp: Blob;
+  /**
+   * Duration of the frame in milliseconds
+   */
+  duration: number;
+}
+
+interface RiffChunk {
+  fourCC: string;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function readChunks(buffer: Uint8Array): RiffChunk[] {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.length);
+
+  if (
+    decoder.decode(buffer.subarray(0, 4)) !== 'RIFF' ||
+    decoder.decode(buffer.subarray(8, 12)) !== 'WEBP'
+  ) {
+    throw new Error('Invalid WebP image');
+  }
+
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const fourCC = decoder.decode(buffer.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({
+      fourCC,
+      data: buffer.subarray(offset + 8, offset + 8 + size),
+    });
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+
+  return chunks;
+}
+
+function writeUint24(target: Uint8Array, offset: number, value: number) {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+}
+
+function createChunk(fourCC: string, data: Uint8Array): Uint8Array {
+  const padding = data.length % 2;
+  const chunk = new Uint8Array(8 + data.length + padding);
+  chunk.set(encoder.encode(fourCC), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Join static WebP frames in an animated WebP image, looping forever.
+ *
+ * The browsers can only encode static WebP images, so each frame is encoded
+ * using a canvas and only the image chunks are copied to the animation
+ */
+export async function createAnimatedWebp(
+  frames: AnimatedWebpFrame[],
+  width: number,
+  height: number
+): Promise<Blob> {
+  const animationFrames: Uint8Array[] = [];
+
+  for (const frame of frames) {
+    const chunks = readChunks(new Uint8Array(await frame.webp.arrayBuffer()));
+
+    // Only the alpha and the image data are allowed inside of a frame
+    const imageChunks = chunks
+      .filter((c) => ['ALPH', 'VP8 ', 'VP8L'].includes(c.fourCC))
+      .map((c) => createChunk(c.fourCC, c.data));
+
+    const header = new Uint8Array(16);
+    writeUint24(header, 0, 0); // X offset
+    writeUint24(header, 3, 0); // Y offset
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.max(Math.round(frame.duration), 1));
+    header[15] = 0b10; // Do not blend, do not dispose
+
+    animationFrames.push(createChunk('ANMF', concat([header, ...imageChunks])));
+  }
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x10 | 0x02; // Alpha and animation flags
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  // Transparent background and infinite loop
+  const anim = new Uint8Array(6);
+
+  const body = concat([
+    encoder.encode('WEBP'),
+    createChunk('VP8X', vp8x),
+    createChunk('ANIM', anim),
+    ...animationFrames,
+  ]);
+
+  const riff = new Uint8Array(8);
+  riff.set(encoder.encode('RIFF'), 0);
+  new DataView(riff.buffer).setUint32(4, body.length, true);
+
+  return new Blob([riff, body], { type: 'image/webp' });
+}
@@ -0,0 +1,26 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Lowercase and remove the accents keeping the same length,
+ * so the offsets of a match are valid for the original text
+ */
+export function fold(text: string): string {
+  return text
+    .split('')
+    .map((char) => char.normalize('NFD')[0].toLowerCase()[0])
+    .join('');
+}
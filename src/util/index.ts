@@ -25,7 +25,10 @@ export * from './generateOrderUniqueId';
 export * from './getVideoInfoFromBuffer';
 export * from './isBase64';
 export * from './isUrl';
+export * from './markdownToWhatsApp';
+export * from './parseWhatsAppFormatting';
 export * from './resizeImage';
+export * from './splitText';
 export * from './toArrayBuffer';
 export * from './types';
 export * from './wrapFunction';
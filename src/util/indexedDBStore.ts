@@ -0,0 +1,115 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MsgKey, MsgModel, Wid } from '../whatsapp';
+
+export interface IndexedDBStore<T> {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const objectStoreName = 'items';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a simple key/value store persisted in the browser IndexedDB.
+ *
+ * Each store uses its own database (`wa-js:<name>`), so it is safe to use
+ * it from independent modules without schema migrations.
+ * Values must be supported by the structured clone algorithm.
+ */
+export function createIndexedDBStore<T>(name: string): IndexedDBStore<T> {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(`wa-js:${name}`, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(objectStoreName);
+      };
+      db = promisify(request).catch((error) => {
+        db = null;
+        throw error;
+      });
+    }
+    return db;
+  };
+
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const database = await open();
+    const transaction = database.transaction(objectStoreName, mode);
+    return promisify(callback(transaction.objectStore(objectStoreName)));
+  };
+
+  return {
+    get: (key) => run('readonly', (store) => store.get(key)),
+    getAll: () => run('readonly', (store) => store.getAll()),
+    put: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    delete: (key) => run('readwrite', (store) => store.delete(key)),
+    clear: () => run('readwrite', (store) => store.clear()),
+  };
+}
+
+/**
+ * Convert WhatsApp objects (`Wid`, `MsgKey`, `MsgModel`) to string IDs,
+ * so the value can be stored using {@link createIndexedDBStore}.
+ * Binary content (`Blob`, `ArrayBuffer` and typed arrays) is kept as is,
+ * functions and abort signals are removed
+ */
+export function toStorableValue(value: any): any {
+  if (value instanceof Wid || value instanceof MsgKey) {
+    return value.toString();
+  }
+  if (value instanceof MsgModel) {
+    return value.id.toString();
+  }
+  if (value instanceof AbortSignal) {
+    return undefined;
+  }
+  if (
+    value instanceof Blob ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    value instanceof Date ||
+    value === null ||
+    typeof value !== 'object'
+  ) {
+    return typeof value === 'function' ? undefined : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toStorableValue);
+  }
+
+  const result: { [key: string]: any } = {};
+  for (const key of Object.keys(value)) {
+    result[key] = toStorableValue(value[key]);
+  }
+  return result;
+}
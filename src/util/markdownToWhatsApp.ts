@@ -0,0 +1,270 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const PLACEHOLDER = '\u0000';
+
+/**
+ * Placed around escaped WhatsApp markers, so they can't open or close
+ * a formatting because they are not next to a space or punctuation
+ */
+const ZERO_WIDTH_JOINER = '\u200D';
+
+interface Delimiter {
+  char: string;
+  /**
+   * Number of characters not matched
+   */
+  count: number;
+  canOpen: boolean;
+  canClose: boolean;
+  /**
+   * WhatsApp markers opened by this delimiter, the outer first
+   */
+  opening: string;
+  /**
+   * WhatsApp markers closed by this delimiter, the inner first
+   */
+  closing: string;
+}
+
+function isSpace(char?: string): boolean {
+  return !char || /\s/.test(char);
+}
+
+function isPunctuation(char?: string): boolean {
+  return !!char && /[\p{P}\p{S}]/u.test(char);
+}
+
+/**
+ * Convert the Markdown emphasis (`*`, `_`, `**` and `__`) to the WhatsApp
+ * markers, matching the delimiters like CommonMark, so the inner markers
+ * are always closed before the outer markers
+ */
+function convertEmphasis(text: string): string {
+  const parts: (string | Delimiter)[] = [];
+  const regex = /\*+|_+/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text))) {
+    if (match.index > lastIndex) {
+      parts.push(text.substring(lastIndex, match.index));
+    }
+    lastIndex = regex.lastIndex;
+
+    const char = match[0][0];
+    const before = text[match.index - 1];
+    const after = text[lastIndex];
+
+    const leftFlanking =
+      !isSpace(after) &&
+      (!isPunctuation(after) || isSpace(before) || isPunctuation(before));
+    const rightFlanking =
+      !isSpace(before) &&
+      (!isPunctuation(before) || isSpace(after) || isPunctuation(after));
+
+    parts.push({
+      char,
+      count: match[0].length,
+      // The underscore can't be used inside words
+      canOpen:
+        leftFlanking &&
+        (char === '*' || !rightFlanking || isPunctuation(before)),
+      canClose:
+        rightFlanking &&
+        (char === '*' || !leftFlanking || isPunctuation(after)),
+      opening: '',
+      closing: '',
+    });
+  }
+
+  if (lastIndex < text.length) {
+    parts.push(text.substring(lastIndex));
+  }
+
+  const openers: Delimiter[] = [];
+
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      continue;
+    }
+
+    let i = openers.length - 1;
+    while (part.canClose && part.count > 0 && i >= 0) {
+      const opener = openers[i];
+      if (opener.char !== part.char) {
+        i--;
+        continue;
+      }
+
+      const size = opener.count >= 2 && part.count >= 2 ? 2 : 1;
+      const marker = size === 2 ? '*' : '_';
+
+      opener.count -= size;
+      opener.opening = marker + opener.opening;
+      part.count -= size;
+      part.closing += marker;
+
+      // The delimiters between them can't be matched anymore
+      openers.splice(i + 1);
+      if (!opener.count) {
+        openers.splice(i, 1);
+        i--;
+      }
+    }
+
+    if (part.canOpen && part.count > 0) {
+      openers.push(part);
+    }
+  }
+
+  return parts
+    .map((part) =>
+      typeof part === 'string'
+        ? part
+        : part.closing + part.char.repeat(part.count) + part.opening
+    )
+    .join('');
+}
+
+/**
+ * Convert the inline Markdown syntax of a line
+ */
+function convertInline(text: string): string {
+  const protectedValues: string[] = [];
+  const protect = (value: string) =>
+    `${PLACEHOLDER}${protectedValues.push(value) - 1}${PLACEHOLDER}`;
+
+  const protectedText = text
+    // Inline code, the content is not converted
+    .replace(/(`+)([^`]|[^`].*?[^`])\1(?!`)/g, (_, __, code: string) =>
+      protect(`\`${code.trim()}\``)
+    )
+    // Escaped characters, the WhatsApp markers are kept inactive
+    .replace(/\\([\\`*_{}[\]()#+\-.!~>|])/g, (_, char: string) =>
+      protect(
+        '*_~`'.includes(char)
+          ? `${ZERO_WIDTH_JOINER}${char}${ZERO_WIDTH_JOINER}`
+          : char
+      )
+    )
+    // Images and links
+    .replace(
+      /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_, __, url: string) => protect(url)
+    )
+    .replace(
+      /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_, label: string, url: string) =>
+        label === url ? protect(url) : `${label} (${protect(url)})`
+    )
+    .replace(/<(https?:\/\/[^>\s]+)>/g, (_, url: string) => protect(url));
+
+  // Bold and italic, then strikethrough
+  return convertEmphasis(protectedText)
+    .replace(/~~(?=\S)(.*?\S)~~/g, '~$1~')
+    .replace(
+      new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g'),
+      (_, index: string) => protectedValues[Number(index)]
+    );
+}
+
+function convertLine(line: string): string {
+  // Horizontal rule
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return '───';
+  }
+
+  // Heading
+  const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+  if (heading) {
+    // The heading is bold, so the bold inside is removed
+    const text = convertInline(heading[1].replace(/(\*\*|__)(.*?)\1/g, '$2'));
+    return text ? `*${text}*` : '';
+  }
+
+  // Quote
+  const quote = line.match(/^\s{0,3}>\s?(.*)$/);
+  if (quote) {
+    return `> ${convertLine(quote[1])}`;
+  }
+
+  // Bulleted list
+  const bullet = line.match(/^(\s*)[-*+]\s+(?:\[[ xX]\]\s+)?(.*)$/);
+  if (bullet) {
+    return `${bullet[1]}- ${convertInline(bullet[2])}`;
+  }
+
+  // Numbered list
+  const numbered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+  if (numbered) {
+    return `${numbered[1]}${numbered[2]}. ${convertInline(numbered[3])}`;
+  }
+
+  return convertInline(line);
+}
+
+/**
+ * Convert a Markdown text to the WhatsApp formatting.
+ *
+ * Supports bold, italic, strikethrough, inline code, code blocks, quotes,
+ * headings (converted to bold), bulleted and numbered lists.
+ * Links are converted to `text (url)`.
+ *
+ * @example
+ * ```javascript
+ * const text = WPP.util.markdownToWhatsApp('# Title\n\nHello **world**, *this* is ~~old~~ `code`');
+ * // *Title*
+ * //
+ * // Hello *world*, _this_ is ~old~ `code`
+ * ```
+ */
+export function markdownToWhatsApp(markdown: string): string {
+  const lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+
+  let fence: string | null = null;
+  let codeLines: string[] = [];
+
+  for (const line of lines) {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+
+    if (fence === null) {
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        codeLines = [];
+      } else {
+        output.push(convertLine(line));
+      }
+      continue;
+    }
+
+    if (fenceMatch && line.trim().startsWith(fence)) {
+      output.push(`\`\`\`${codeLines.join('\n')}\`\`\``);
+      fence = null;
+      continue;
+    }
+
+    codeLines.push(line);
+  }
+
+  // Code block not closed
+  if (fence !== null) {
+    output.push(`\`\`\`${codeLines.join('\n')}\`\`\``);
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,204 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface OpusPacket {
+  data: Uint8Array;
+  /**
+   * Number of samples of the packet, at 48kHz
+   */
+  samples: number;
+}
+
+export interface OggOpusOptions {
+  channels: number;
+  /**
+   * Sample rate of the original audio, only informative
+   */
+  inputSampleRate: number;
+  /**
+   * Number of samples, at 48kHz, to discard from the decoder output
+   */
+  preSkip: number;
+  /**
+   * Number of samples, at 48kHz, of the original audio,
+   * used to trim the padding of the last packet
+   */
+  totalSamples?: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Max number of packets of each page
+ */
+const PACKETS_PER_PAGE = 50;
+
+/**
+ * Max number of segments of each page, the count is stored in a single byte
+ */
+const SEGMENTS_PER_PAGE = 255;
+
+/**
+ * Number of lacing segments of a packet, split in segments of 255 bytes
+ * and ended by a smaller segment
+ */
+function countSegments(packet: Uint8Array): number {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+const crcTable = new Uint32Array(256).map((_, i) => {
+  let r = i << 24;
+  for (let j = 0; j < 8; j++) {
+    r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+  }
+  return r >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function createPage(
+  packets: Uint8Array[],
+  granule: number,
+  serial: number,
+  sequence: number,
+  headerType: number
+): Uint8Array {
+  // Each packet is split in segments of 255 bytes, ended by a smaller segment
+  const segments: number[] = [];
+  for (const packet of packets) {
+    let size = packet.length;
+    while (size >= 255) {
+      segments.push(255);
+      size -= 255;
+    }
+    segments.push(size);
+  }
+
+  const header = new Uint8Array(27 + segments.length);
+  const view = new DataView(header.buffer);
+  header.set(encoder.encode('OggS'), 0);
+  header[4] = 0; // Version
+  header[5] = headerType;
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  header[26] = segments.length;
+  header.set(segments, 27);
+
+  const page = concat([header, ...packets]);
+  new DataView(page.buffer).setUint32(22, crc32(page), true);
+
+  return page;
+}
+
+/**
+ * Mux Opus packets in an Ogg container, like the voice notes of WhatsApp.
+ *
+ * The browsers can encode Opus packets with WebCodecs,
+ * but they don't have an API to write the Ogg container
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc7845
+ */
+export function createOggOpus(
+  packets: OpusPacket[],
+  options: OggOpusOptions
+): Blob {
+  const serial = crypto.getRandomValues(new Uint32Array(1))[0];
+
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(encoder.encode('OpusHead'), 0);
+  head[8] = 1; // Version
+  head[9] = options.channels;
+  headView.setUint16(10, options.preSkip, true);
+  headView.setUint32(12, options.inputSampleRate, true);
+  headView.setUint16(16, 0, true); // Output gain
+  head[18] = 0; // Channel mapping family
+
+  const vendor = encoder.encode('WA-JS');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const tagsView = new DataView(tags.buffer);
+  tags.set(encoder.encode('OpusTags'), 0);
+  tagsView.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  tagsView.setUint32(12 + vendor.length, 0, true); // No comments
+
+  const pages: Uint8Array[] = [
+    createPage([head], 0, serial, 0, 0x02), // Beginning of stream
+    createPage([tags], 0, serial, 1, 0),
+  ];
+
+  const lastGranule =
+    options.totalSamples !== undefined
+      ? options.preSkip + options.totalSamples
+      : Infinity;
+
+  let granule = 0;
+  let i = 0;
+
+  while (i < packets.length) {
+    // Fill the page until the next packet exceeds the segments limit
+    const pagePackets: OpusPacket[] = [];
+    let segments = 0;
+
+    while (
+      i < packets.length &&
+      pagePackets.length < PACKETS_PER_PAGE &&
+      (!pagePackets.length ||
+        segments + countSegments(packets[i].data) <= SEGMENTS_PER_PAGE)
+    ) {
+      segments += countSegments(packets[i].data);
+      pagePackets.push(packets[i++]);
+    }
+
+    const isLast = i >= packets.length;
+
+    granule += pagePackets.reduce((total, p) => total + p.samples, 0);
+
+    pages.push(
+      createPage(
+        pagePackets.map((p) => p.data),
+        isLast ? Math.min(granule, lastGranule) : granule,
+        serial,
+        pages.length,
+        isLast ? 0x04 : 0 // End of stream
+      )
+    );
+  }
+
+  return new Blob(pages as Uint8Array<ArrayBuffer>[], {
+    type: 'audio/ogg; codecs=opus',
+  });
+}
@@ -0,0 +1,268 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type WhatsAppFormatNode =
+  | { type: 'text'; value: string }
+  | {
+      type: 'bold' | 'italic' | 'strikethrough';
+      children: WhatsAppFormatNode[];
+    }
+  | { type: 'code'; value: string }
+  | { type: 'codeBlock'; value: string }
+  | { type: 'quote'; children: WhatsAppFormatNode[] }
+  | {
+      type: 'list';
+      ordered: boolean;
+      start?: number;
+      items: WhatsAppFormatNode[][];
+    }
+  | { type: 'lineBreak' };
+
+const inlineMarkers: {
+  [marker: string]: 'bold' | 'italic' | 'strikethrough' | 'code';
+} = {
+  '*': 'bold',
+  _: 'italic',
+  '~': 'strikethrough',
+  '`': 'code',
+};
+
+/**
+ * Letters and numbers, the zero-width joiner is included because it is
+ * used to keep the escaped markers inactive, see `markdownToWhatsApp`
+ */
+function isWordChar(char?: string): boolean {
+  return !!char && /[\p{L}\p{N}\u200D]/u.test(char);
+}
+
+/**
+ * Find the closing marker, the content can't start or end with spaces
+ * and the closing marker can't be followed by a letter or number
+ */
+function findClosingMarker(text: string, start: number): number {
+  const marker = text[start];
+
+  for (let i = start + 2; i < text.length; i++) {
+    if (
+      text[i] === marker &&
+      !/\s/.test(text[i - 1]) &&
+      !isWordChar(text[i + 1])
+    ) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function parseInline(text: string): WhatsAppFormatNode[] {
+  const nodes: WhatsAppFormatNode[] = [];
+  let buffer = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const type = inlineMarkers[char];
+
+    if (
+      type &&
+      !isWordChar(text[i - 1]) &&
+      text[i + 1] &&
+      text[i + 1] !== char &&
+      !/\s/.test(text[i + 1])
+    ) {
+      const end = findClosingMarker(text, i);
+
+      if (end > 0) {
+        if (buffer) {
+          nodes.push({ type: 'text', value: buffer });
+          buffer = '';
+        }
+
+        const content = text.substring(i + 1, end);
+        nodes.push(
+          type === 'code'
+            ? { type, value: content }
+            : { type, children: parseInline(content) }
+        );
+
+        i = end;
+        continue;
+      }
+    }
+
+    buffer += char;
+  }
+
+  if (buffer) {
+    nodes.push({ type: 'text', value: buffer });
+  }
+
+  return nodes;
+}
+
+function parseLines(text: string): WhatsAppFormatNode[] {
+  const lines = text.split('\n');
+  const nodes: WhatsAppFormatNode[] = [];
+  let previousIsInline = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Quote, joining the next quoted lines
+    if (/^> ?/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^> ?/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^> ?/, ''));
+        i++;
+      }
+      i--;
+
+      nodes.push({ type: 'quote', children: parseLines(quoted.join('\n')) });
+      previousIsInline = false;
+      continue;
+    }
+
+    // Lists, joining the next items of the same kind
+    const listMatch = line.match(/^(?:([*•-]) |(\d+)\. )/);
+    if (listMatch) {
+      const ordered = !!listMatch[2];
+      const itemRegex = ordered ? /^\d+\. / : /^[*•-] /;
+      const items: WhatsAppFormatNode[][] = [];
+
+      while (i < lines.length && itemRegex.test(lines[i])) {
+        items.push(parseInline(lines[i].replace(itemRegex, '')));
+        i++;
+      }
+      i--;
+
+      nodes.push({
+        type: 'list',
+        ordered,
+        ...(ordered && { start: Number(listMatch[2]) }),
+        items,
+      });
+      previousIsInline = false;
+      continue;
+    }
+
+    if (previousIsInline) {
+      nodes.push({ type: 'lineBreak' });
+    }
+    nodes.push(...parseInline(line));
+    previousIsInline = true;
+  }
+
+  return nodes;
+}
+
+/**
+ * Parse the WhatsApp formatting of a message text to a tree of nodes
+ *
+ * @example
+ * ```javascript
+ * const nodes = WPP.util.parseWhatsAppFormatting('Hello *world* _!_');
+ * // [
+ * //   { type: 'text', value: 'Hello ' },
+ * //   { type: 'bold', children: [{ type: 'text', value: 'world' }] },
+ * //   { type: 'text', value: ' ' },
+ * //   { type: 'italic', children: [{ type: 'text', value: '!' }] },
+ * // ]
+ * ```
+ */
+export function parseWhatsAppFormatting(text: string): WhatsAppFormatNode[] {
+  const nodes: WhatsAppFormatNode[] = [];
+  const normalized = (text || '').replace(/\r\n?/g, '\n');
+  const codeBlockRegex = /```([\s\S]+?)```/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = codeBlockRegex.exec(normalized))) {
+    nodes.push(...parseLines(normalized.substring(lastIndex, match.index)));
+    nodes.push({ type: 'codeBlock', value: match[1] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  nodes.push(...parseLines(normalized.substring(lastIndex)));
+
+  return nodes;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const htmlTags = {
+  bold: 'strong',
+  italic: 'em',
+  strikethrough: 'del',
+};
+
+/**
+ * Render a message text with WhatsApp formatting (or the parsed nodes)
+ * to HTML, escaping the text
+ *
+ * @example
+ * ```javascript
+ * const html = WPP.util.whatsAppFormattingToHtml('Hello *world*');
+ * // Hello <strong>world</strong>
+ * ```
+ */
+export function whatsAppFormattingToHtml(
+  content: string | WhatsAppFormatNode[]
+): string {
+  const nodes =
+    typeof content === 'string' ? parseWhatsAppFormatting(content) : content;
+
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.value);
+        case 'bold':
+        case 'italic':
+        case 'strikethrough': {
+          const tag = htmlTags[node.type];
+          return `<${tag}>${whatsAppFormattingToHtml(node.children)}</${tag}>`;
+        }
+        case 'code':
+          return `<code>${escapeHtml(node.value)}</code>`;
+        case 'codeBlock':
+          return `<pre><code>${escapeHtml(node.value)}</code></pre>`;
+        case 'quote':
+          return `<blockquote>${whatsAppFormattingToHtml(node.children)}</blockquote>`;
+        case 'list': {
+          const tag = node.ordered ? 'ol' : 'ul';
+          const start =
+            node.ordered && node.start !== undefined && node.start !== 1
+              ? ` start="${node.start}"`
+              : '';
+          const items = node.items
+            .map((item) => `<li>${whatsAppFormattingToHtml(item)}</li>`)
+            .join('');
+          return `<${tag}${start}>${items}</${tag}>`;
+        }
+        case 'lineBreak':
+          return '<br>';
+      }
+    })
+    .join('');
+}
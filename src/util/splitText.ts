@@ -0,0 +1,122 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface SplitTextOptions {
+  /**
+   * Max length of each part
+   *
+   * @default 4096
+   */
+  maxLength?: number;
+  /**
+   * Preferred boundary to split the text, the next smaller boundary
+   * is used when a part is still too long
+   *
+   * @default 'paragraph'
+   */
+  by?: 'paragraph' | 'sentence' | 'word';
+}
+
+/**
+ * Boundaries from the biggest to the smallest,
+ * the split position is after the match
+ */
+const boundaries = {
+  paragraph: [/\n[^\S\n]*\n/g, /\n/g],
+  sentence: [/[.!?…]+["')\]]*(?=\s)/g],
+  word: [/\s+/g],
+};
+
+function findLastBoundary(text: string, regex: RegExp): number {
+  let position = -1;
+  regex.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text))) {
+    if (match.index > 0) {
+      position = match.index + match[0].length;
+    }
+  }
+
+  return position;
+}
+
+/**
+ * Split a text in parts with at most `maxLength` characters.
+ *
+ * The text is split at the last paragraph, sentence or word boundary
+ * that fits in the part, falling back to smaller boundaries when needed.
+ * Words longer than `maxLength` are cut.
+ *
+ * @example
+ * ```javascript
+ * const parts = WPP.util.splitText(longText, {
+ *   maxLength: 1000,
+ *   by: 'sentence',
+ * });
+ * ```
+ */
+export function splitText(
+  text: string,
+  options: SplitTextOptions = {}
+): string[] {
+  const maxLength = Math.max(options.maxLength || 4096, 1);
+  const by = options.by || 'paragraph';
+
+  const regexes = [
+    ...(by === 'paragraph' ? boundaries.paragraph : []),
+    ...(by !== 'word' ? boundaries.sentence : []),
+    ...boundaries.word,
+  ];
+
+  const parts: string[] = [];
+  let rest = text.trim();
+
+  while (rest.length > maxLength) {
+    // Include the next character, it can be the whitespace after a word
+    const window = rest.substring(0, maxLength + 1);
+
+    let position = -1;
+    for (const regex of regexes) {
+      position = findLastBoundary(window, regex);
+      if (position > 0) {
+        break;
+      }
+    }
+
+    if (position <= 0) {
+      position = maxLength;
+
+      // Don't cut a surrogate pair
+      const code = rest.charCodeAt(position - 1);
+      if (code >= 0xd800 && code <= 0xdbff && position > 1) {
+        position--;
+      }
+    }
+
+    const part = rest.substring(0, position).trim();
+    if (part) {
+      parts.push(part);
+    }
+    rest = rest.substring(position).trim();
+  }
+
+  if (rest) {
+    parts.push(rest);
+  }
+
+  return parts;
+}
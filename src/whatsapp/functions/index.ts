@@ -81,6 +81,7 @@ export * from './getMembershipApprovalRequests';
 export * from './getNewsletterSubscribers';
 export * from './getNextLabelId';
 export * from './getNumChatsPinned';
+export * from './getOrCreateMediaObject';
 export * from './getOrderInfo';
 export * from './getParticipants';
 export * from './getPhoneLangPref';
@@ -92,6 +93,7 @@ export * from './getReactions';
 export * from './getSearchContext';
 export * from './getShouldAppearInList';
 export * from './getStatusList';
+export * from './getTableEventResponses';
 export * from './getTableVotes';
 export * from './getVotes';
 export * from './getWhatsAppWebExternalBetaJoinedIdb';
@@ -110,6 +112,7 @@ export * from './isWid';
 export * from './joinGroupViaInvite';
 export * from './keepMessage';
 export * from './labelAddAction';
+export * from './loadEarlierMsgs';
 export * from './markSeen';
 export * from './mediaTypeFromProtobuf';
 export * from './membershipApprovalRequestAction';
@@ -129,6 +132,7 @@ export * from './queryAllGroups';
 export * from './queryGroupInviteCode';
 export * from './queryNewsletterMetadataByJid';
 export * from './queryOrder';
+export * from './quickReplyAddAction';
 export * from './randomHex';
 export * from './randomId';
 export * from './removeStatusMessage';
@@ -141,6 +145,8 @@ export * from './sendClear';
 export * from './sendCreateCommunity';
 export * from './sendCreateGroup';
 export * from './sendDelete';
+export * from './sendEventEditMsg';
+export * from './sendEventResponseMsg';
 export * from './sendExitGroup';
 export * from './sendGroupParticipants';
 export * from './sendJoinGroupViaInvite';
@@ -153,6 +159,7 @@ export * from './sendQueryGroupInviteCode';
 export * from './sendReactionToMsg';
 export * from './sendRevokeGroupInviteCode';
 export * from './sendTextMsgToChat';
+export * from './sendVote';
 export * from './setArchive';
 export * from './setGroup';
 export * from './setPin';
@@ -177,5 +184,6 @@ export * from './updateParticipants';
 export * from './uploadMedia';
 export * from './uploadProductImage';
 export * from './uploadThumbnail';
+export * from './upsertEventResponses';
 export * from './upsertVotes';
 export * from './voteFromDbRow';
@@ -0,0 +1,37 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { exportModule } from '../exportModule';
+import { ChatModel, MsgModel } from '../models';
+
+/**
+ * Load older messages of a chat, requesting them from the phone
+ * when they are not available locally
+ *
+ * @whatsapp WAWebChatLoadMessages >= 2.3000.1012654901
+ */
+export declare function loadEarlierMsgs(
+  chat: ChatModel,
+  msgs?: any
+): Promise<MsgModel[] | undefined>;
+
+exportModule(
+  exports,
+  {
+    loadEarlierMsgs: 'loadEarlierMsgs',
+  },
+  (m) => m.loadEarlierMsgs && m.loadRecentMsgs
+);
@@ -26,6 +26,7 @@ export interface MsgFindQueryParams {
   id?: string;
   participant?: any;
   media?: 'url' | 'document';
+  query?: string;
 }
 
 /**
@@ -0,0 +1,46 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { exportModule } from '../exportModule';
+
+/**
+ * @whatsapp WAWebQuickReplyAction >= 2.3000.1032534684
+ */
+export declare function quickReplyAddAction(
+  shortcut: string,
+  message: string,
+  keywords: string[],
+  count: number
+): Promise<any>;
+export declare function quickReplyDeleteAction(id: string): Promise<any>;
+export declare function quickReplyEditAction(
+  id: string,
+  shortcut: string,
+  message: string,
+  keywords: string[],
+  count: number
+): Promise<any>;
+
+exportModule(
+  exports,
+  {
+    quickReplyAddAction: 'quickReplyAddAction',
+    quickReplyDeleteAction: 'quickReplyDeleteAction',
+    quickReplyEditAction: 'quickReplyEditAction',
+  },
+  (m) =>
+    m.quickReplyAddAction && m.quickReplyDeleteAction && m.quickReplyEditAction
+);
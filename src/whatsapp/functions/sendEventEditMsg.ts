@@ -0,0 +1,48 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { exportModule } from '../exportModule';
+import { MsgModel } from '../models';
+
+export interface EventEditData {
+  name: string;
+  description?: string;
+  startTime: number;
+  endTime?: number;
+  location?: {
+    degreesLatitude: number;
+    degreesLongitude: number;
+    name: string;
+  };
+  joinLink?: string;
+  isEventCanceled: boolean;
+}
+
+/**
+ * @whatsapp WAWebSendEventEditMsgAction >= 2.3000.0
+ */
+export declare function sendEventEditMsg(
+  data: EventEditData,
+  eventMsg: MsgModel
+): Promise<any>;
+
+exportModule(
+  exports,
+  {
+    sendEventEditMsg: 'sendEventEditMsg',
+  },
+  (m) => m.sendEventEditMsg
+);
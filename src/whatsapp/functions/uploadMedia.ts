@@ -14,12 +14,25 @@
  * limitations under the License.
  */
 
-import { ChatModel } from '..';
 import { exportModule } from '../exportModule';
+import { MediaEntry } from '../misc';
+
+export interface UploadMediaData {
+  mimetype: string;
+  mediaObject: any;
+  mediaType: string;
+  forwardedFromWeb?: boolean;
+  signal?: AbortSignal;
+  timedOut?: boolean;
+  isViewOnce?: boolean;
+}
 
 /** @whatsapp 709089
  */
-export declare function uploadMedia(chat: ChatModel): Promise<void>;
+export declare function uploadMedia(data: UploadMediaData): Promise<{
+  mediaEntry: MediaEntry;
+  [key: string]: any;
+}>;
 
 exportModule(
   exports,
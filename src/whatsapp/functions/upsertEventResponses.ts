@@ -0,0 +1,44 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { exportModule } from '../exportModule';
+import { MsgKey, Wid } from '../misc';
+
+export interface EventResponseData {
+  msgKey: MsgKey;
+  parentMsgKey: MsgKey;
+  sender: Wid;
+  /**
+   * 1 = going, 2 = not going, 3 = maybe
+   */
+  eventResponse: number;
+  senderTimestampMs: number;
+}
+
+/**
+ * @whatsapp WAWebEventResponsesDbUpdater >= 2.3000.0
+ */
+export declare function upsertEventResponses(
+  args: EventResponseData[]
+): Promise<any>;
+
+exportModule(
+  exports,
+  {
+    upsertEventResponses: 'upsertEventResponses',
+  },
+  (m) => m.upsertEventResponses
+);
@@ -258,6 +258,9 @@ interface Props {
   selectedButtonId?: string;
   interactiveMessage?: any;
   isMdHistoryMsg: boolean;
+  latestEditMsgKey?: MsgKey;
+  latestEditSenderTimestampMs?: number;
+  hasReaction?: boolean;
 }
 
 interface Session {
@@ -352,6 +355,13 @@ interface Derived {
   pollOptions?: any;
   pollSelectableOptionsCount?: number;
   pollUpdateParentKey?: any;
+  eventName?: string;
+  eventDescription?: string;
+  eventStartTime?: number;
+  eventEndTime?: number;
+  eventLocation?: any;
+  eventJoinLink?: string;
+  isEventCanceled?: boolean;
   nativeFlowName?: string;
   interactivePayload?: any;
 }
@@ -29,6 +29,10 @@ interface Props {
   message?: any;
   count?: any;
   keywords?: any;
+  /**
+   * Media attached to the quick reply, with the same media fields of a message
+   */
+  mediaAttachments?: any[];
 }
 
 interface Session {
@@ -108,6 +108,10 @@ export declare const ReactionsStore: collections.ReactionsCollection;
  * @whatsapp WAWebRecentEmojiCollection >= 2.3000.1032534684
  */
 export declare const RecentEmojiStore: collections.RecentEmojiCollection;
+/**
+ * @whatsapp WAWebFavoriteStickerCollection >= 2.3000.1032534684
+ */
+export declare const FavoriteStickerStore: collections.StickerCollection;
 /**
  * @whatsapp WAWebRecentStickerCollection >= 2.3000.1032534684
  */
@@ -228,6 +232,14 @@ exportModule(
   (m, id) => id === 'WAWebNewsletterCollection' && m.default
 );
 
+exportModule(
+  exports,
+  {
+    FavoriteStickerStore: 'default',
+  },
+  (m, id) => id === 'WAWebFavoriteStickerCollection' && m.default
+);
+
 exportModule(
   exports,
   {
@@ -0,0 +1,60 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import './mockWhatsApp';
+
+import { expect, test } from '@playwright/test';
+
+import { toStorableValue } from '../src/util/indexedDBStore';
+import { Wid } from '../src/whatsapp';
+
+test.describe('toStorableValue', () => {
+  test('keep the binary values after a structured clone', () => {
+    const buffer = new Uint8Array([1, 2, 3]).buffer;
+    const bytes = new Uint8Array([4, 5, 6]);
+
+    const restored = structuredClone(toStorableValue({ buffer, bytes }));
+
+    expect(restored.buffer).toBeInstanceOf(ArrayBuffer);
+    expect(Array.from(new Uint8Array(restored.buffer))).toEqual([1, 2, 3]);
+    expect(restored.bytes).toBeInstanceOf(Uint8Array);
+    expect(Array.from(restored.bytes)).toEqual([4, 5, 6]);
+  });
+
+  test('keep the plain values and remove functions and signals', () => {
+    const value = {
+      chatId: new Wid('123@c.us'),
+      text: 'Hello',
+      count: 2,
+      list: [true, null],
+      date: new Date(0),
+      onProgress: () => null,
+      signal: new AbortController().signal,
+    };
+
+    const restored = structuredClone(toStorableValue(value));
+
+    expect(restored).toEqual({
+      chatId: '123@c.us',
+      text: 'Hello',
+      count: 2,
+      list: [true, null],
+      date: new Date(0),
+      onProgress: undefined,
+      signal: undefined,
+    });
+  });
+});
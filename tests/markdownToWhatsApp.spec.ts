@@ -0,0 +1,54 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from '@playwright/test';
+
+import { markdownToWhatsApp } from '../src/util/markdownToWhatsApp';
+import { parseWhatsAppFormatting } from '../src/util/parseWhatsAppFormatting';
+
+const ZWJ = '\u200D';
+
+test.describe('markdownToWhatsApp', () => {
+  test('convert the basic formatting', () => {
+    expect(
+      markdownToWhatsApp('# Title\n\nHello **world**, *this* is ~~old~~ `code`')
+    ).toBe('*Title*\n\nHello *world*, _this_ is ~old~ `code`');
+  });
+
+  test('close the inner markers before the outer markers', () => {
+    expect(markdownToWhatsApp('***both***')).toBe('_*both*_');
+    expect(markdownToWhatsApp('**bold *italic***')).toBe('*bold _italic_*');
+    expect(markdownToWhatsApp('*italic **bold***')).toBe('_italic *bold*_');
+    expect(markdownToWhatsApp('__bold _italic___')).toBe('*bold _italic_*');
+  });
+
+  test('keep the underscores inside words', () => {
+    expect(markdownToWhatsApp('snake_case_name')).toBe('snake_case_name');
+  });
+
+  test('keep the escaped markers inactive', () => {
+    const text = markdownToWhatsApp('\\*lit\\*');
+
+    expect(text).toBe(`${ZWJ}*${ZWJ}lit${ZWJ}*${ZWJ}`);
+    expect(parseWhatsAppFormatting(text)).toEqual([
+      { type: 'text', value: text },
+    ]);
+
+    expect(markdownToWhatsApp('\\_lit\\_ and \\~lit\\~')).not.toMatch(
+      /(^|\s)[_~]lit/
+    );
+  });
+});
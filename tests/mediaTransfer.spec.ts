@@ -0,0 +1,79 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from '@playwright/test';
+
+import {
+  everyAbortSignal,
+  findDownloadTransfer,
+  findUploadTransfers,
+  trackMediaTransfer,
+} from '../src/chat/util/mediaTransfer';
+
+test.describe('mediaTransfer', () => {
+  test('find all the uploads of the same file', () => {
+    const untrack = [
+      trackMediaTransfer({ type: 'upload', id: 'a', key: 'hash1' }),
+      trackMediaTransfer({ type: 'upload', id: 'b', key: 'hash1' }),
+      trackMediaTransfer({ type: 'upload', id: 'c', key: 'hash2' }),
+    ];
+
+    expect(findUploadTransfers('hash1').map((t) => t.id)).toEqual(['a', 'b']);
+    expect(findUploadTransfers('hash3')).toEqual([]);
+    expect(findUploadTransfers('')).toEqual([]);
+
+    untrack.forEach((fn) => fn());
+    expect(findUploadTransfers('hash1')).toEqual([]);
+  });
+
+  test('find a download by the direct path', () => {
+    const untrack = trackMediaTransfer({
+      type: 'download',
+      id: 'a',
+      key: '/v/t62.7118-24/123_456.enc',
+    });
+
+    expect(
+      findDownloadTransfer(
+        'https://mmg.whatsapp.net/v/t62.7118-24/123_456.enc?ccb=11-4'
+      )?.id
+    ).toBe('a');
+    expect(
+      findDownloadTransfer('https://mmg.whatsapp.net/v/t62.7118-24/789.enc')
+    ).toBeUndefined();
+
+    untrack();
+  });
+
+  test('abort a shared upload only when all signals are aborted', () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const signal = everyAbortSignal([first.signal, second.signal])!;
+
+    first.abort();
+    expect(signal.aborted).toBe(false);
+
+    second.abort();
+    expect(signal.aborted).toBe(true);
+  });
+
+  test('never abort a shared upload with a transfer without signal', () => {
+    expect(
+      everyAbortSignal([new AbortController().signal, undefined])
+    ).toBeUndefined();
+    expect(everyAbortSignal([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,39 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Module from 'module';
+
+/**
+ * Replace the WhatsApp modules, only available inside WhatsApp Web,
+ * so the helpers importing them can be tested without a browser
+ */
+const filename = require.resolve('../src/whatsapp');
+
+const mocked = new Module(filename);
+mocked.filename = filename;
+mocked.loaded = true;
+mocked.exports = {
+  MsgKey: class MsgKey {},
+  MsgModel: class MsgModel {},
+  Wid: class Wid {
+    constructor(private id: string) {}
+    toString() {
+      return this.id;
+    }
+  },
+};
+
+require.cache[filename] = mocked;
@@ -0,0 +1,108 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from '@playwright/test';
+
+import { createOggOpus, OpusPacket } from '../src/util/oggOpus';
+
+interface OggPage {
+  headerType: number;
+  granule: number;
+  segments: number;
+  packets: Uint8Array[];
+}
+
+async function readPages(blob: Blob): Promise<OggPage[]> {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(data.buffer);
+  const pages: OggPage[] = [];
+
+  let offset = 0;
+  while (offset < data.length) {
+    expect(new TextDecoder().decode(data.slice(offset, offset + 4))).toBe(
+      'OggS'
+    );
+
+    const segments = data[offset + 26];
+    const lacing = data.slice(offset + 27, offset + 27 + segments);
+    let position = offset + 27 + segments;
+
+    const packets: Uint8Array[] = [];
+    let size = 0;
+    for (const value of lacing) {
+      size += value;
+      if (value < 255) {
+        packets.push(data.slice(position, position + size));
+        position += size;
+        size = 0;
+      }
+    }
+
+    pages.push({
+      headerType: data[offset + 5],
+      granule: view.getUint32(offset + 6, true),
+      segments,
+      packets,
+    });
+    offset = position;
+  }
+
+  return pages;
+}
+
+function createPackets(count: number, size: number): OpusPacket[] {
+  return Array.from({ length: count }, (_, i) => ({
+    data: new Uint8Array(size).fill(i % 256),
+    samples: 960,
+  }));
+}
+
+test.describe('createOggOpus', () => {
+  const options = { channels: 1, inputSampleRate: 48000, preSkip: 312 };
+
+  test('write the header pages and split the packets in pages', async () => {
+    const packets = createPackets(120, 10);
+    const pages = await readPages(createOggOpus(packets, options));
+
+    expect(pages.map((p) => p.packets.length)).toEqual([1, 1, 50, 50, 20]);
+    expect(pages[0].headerType).toBe(0x02);
+    expect(pages[4].headerType).toBe(0x04);
+    expect(pages[2].granule).toBe(50 * 960);
+    expect(pages.slice(2).flatMap((p) => p.packets)).toEqual(
+      packets.map((p) => p.data)
+    );
+  });
+
+  test('flush the page before exceeding 255 segments', async () => {
+    // Each packet uses 8 segments
+    const packets = createPackets(40, 2000);
+    const pages = await readPages(createOggOpus(packets, options));
+
+    expect(pages.map((p) => p.segments)).toEqual([1, 1, 248, 72]);
+    expect(pages.slice(2).flatMap((p) => p.packets)).toEqual(
+      packets.map((p) => p.data)
+    );
+  });
+
+  test('trim the granule of the last page to the total samples', async () => {
+    const packets = createPackets(3, 10);
+    const pages = await readPages(
+      createOggOpus(packets, { ...options, totalSamples: 2000 })
+    );
+
+    expect(pages[pages.length - 1].granule).toBe(312 + 2000);
+  });
+});
@@ -0,0 +1,64 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from '@playwright/test';
+
+import {
+  getRevokedMessagesCacheConfig,
+  pruneRecentMessages,
+} from '../src/chat/util/revokedMessagesCache';
+
+function createMessages(times: number[]) {
+  return new Map(times.map((cachedAt, i) => [`id${i}`, { cachedAt }]));
+}
+
+test.describe('revokedMessagesCache', () => {
+  test('use the default limits for a partial config', () => {
+    expect(getRevokedMessagesCacheConfig({ enabled: true })).toEqual({
+      enabled: true,
+      maxMessages: 1000,
+      maxAge: 86400,
+      maxStoredMessages: 5000,
+      storedMaxAge: 2592000,
+    });
+  });
+
+  test('keep the recent messages with a partial config', () => {
+    const now = Date.now();
+    const messages = createMessages([now - 1000, now]);
+
+    pruneRecentMessages(messages, { enabled: true }, now);
+
+    expect([...messages.keys()]).toEqual(['id0', 'id1']);
+  });
+
+  test('remove the oldest messages exceeding the limits', () => {
+    const now = Date.now();
+    const messages = createMessages([now - 20000, now - 2000, now - 1000, now]);
+
+    pruneRecentMessages(messages, { maxMessages: 3, maxAge: 10 }, now);
+    expect([...messages.keys()]).toEqual(['id1', 'id2', 'id3']);
+
+    pruneRecentMessages(messages, { maxMessages: 2 }, now);
+    expect([...messages.keys()]).toEqual(['id2', 'id3']);
+
+    pruneRecentMessages(messages, { maxAge: 1 }, now);
+    expect([...messages.keys()]).toEqual(['id2', 'id3']);
+
+    pruneRecentMessages(messages, { maxAge: 0.5 }, now);
+    expect([...messages.keys()]).toEqual(['id3']);
+  });
+});
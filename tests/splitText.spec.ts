@@ -0,0 +1,56 @@
+/*!
+ * Copyright 2026 WPPConnect Team
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from '@playwright/test';
+
+import { splitText } from '../src/util/splitText';
+
+test.describe('splitText', () => {
+  test('keep a short text in a single part', () => {
+    expect(splitText('  Hello world  ')).toEqual(['Hello world']);
+  });
+
+  test('split by paragraph, then by sentence and word', () => {
+    const text = 'First paragraph.\n\nSecond one. It is longer than the limit.';
+
+    expect(splitText(text, { maxLength: 30 })).toEqual([
+      'First paragraph.',
+      'Second one.',
+      'It is longer than the limit.',
+    ]);
+  });
+
+  test('split by word when requested', () => {
+    expect(
+      splitText('one two three four', { maxLength: 9, by: 'word' })
+    ).toEqual(['one two', 'three', 'four']);
+  });
+
+  test('cut words longer than the limit', () => {
+    expect(splitText('abcdefghij', { maxLength: 4 })).toEqual([
+      'abcd',
+      'efgh',
+      'ij',
+    ]);
+  });
+
+  test('do not cut a surrogate pair', () => {
+    const parts = splitText('ab😀cd', { maxLength: 3 });
+
+    expect(parts).toEqual(['ab', '😀c', 'd']);
+    expect(parts.every((p) => p.length <= 3)).toBe(true);
+  });
+});